@@ -1,12 +1,36 @@
 import CurrencyConverter from '@/components/CurrencyConverter';
-import React from 'react';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect } from 'react';
 import { SafeAreaView, StatusBar } from 'react-native';
 
+import preferencesService from '@/services/preferencesService';
+
+// The pinned start screen is opened once per launch, and not when a link or shared text brought
+// the user to the currency list
+let startScreenApplied = false;
+
 export default function HomeScreen() {
+  const hasParams = Object.keys(useLocalSearchParams()).length > 0;
+
+  useEffect(() => {
+    if (startScreenApplied) {
+      return;
+    }
+    startScreenApplied = true;
+    if (hasParams) {
+      return;
+    }
+    preferencesService.load().then(({ startScreen }) => {
+      if (startScreen === 'pair') {
+        router.navigate('/pair');
+      }
+    });
+  }, [hasParams]);
+
   return (
     <SafeAreaView style={{ flex: 1, backgroundColor: '#f8f9fa' }}>
       <StatusBar barStyle="light-content" backgroundColor="#007AFF" />
       <CurrencyConverter />
     </SafeAreaView>
   );
-}
\ No newline at end of file
+}
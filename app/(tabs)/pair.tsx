@@ -0,0 +1,12 @@
+import PairConverter from '@/components/PairConverter';
+import React from 'react';
+import { SafeAreaView, StatusBar } from 'react-native';
+
+export default function PairScreen() {
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: '#f8f9fa' }}>
+      <StatusBar barStyle="light-content" backgroundColor="#007AFF" />
+      <PairConverter />
+    </SafeAreaView>
+  );
+}
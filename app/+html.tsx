@@ -0,0 +1,36 @@
+import { ScrollViewStyleReset } from 'expo-router/html';
+import { type PropsWithChildren } from 'react';
+
+import appConfig from '@/app.json';
+
+// Registers the service worker from public/sw.js once the page has loaded. The app version
+// goes into the script URL, so a release installs a fresh worker with its own cache.
+const registerServiceWorker = `
+if ('serviceWorker' in navigator) {
+  window.addEventListener('load', function () {
+    navigator.serviceWorker.register('/sw.js?v=${encodeURIComponent(appConfig.expo.version)}').catch(function (error) {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+}
+`;
+
+// Root HTML for every page of the static web export; only used on web
+export default function Root({ children }: PropsWithChildren) {
+  return (
+    <html lang="en">
+      <head>
+        <meta charSet="utf-8" />
+        <meta httpEquiv="X-UA-Compatible" content="IE=edge" />
+        <meta name="viewport" content="width=device-width, initial-scale=1, shrink-to-fit=no" />
+        <meta name="theme-color" content="#007AFF" />
+        <link rel="manifest" href="/manifest.json" />
+        <link rel="apple-touch-icon" href="/icon.png" />
+        <ScrollViewStyleReset />
+        {/* A cached shell would keep serving stale bundles to the dev server */}
+        {process.env.NODE_ENV === 'production' && <script dangerouslySetInnerHTML={{ __html: registerServiceWorker }} />}
+      </head>
+      <body>{children}</body>
+    </html>
+  );
+}
@@ -1,22 +1,48 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
+import * as Notifications from 'expo-notifications';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+// Registers the background rate alert task at startup
+import '@/services/alertTask';
+import preferencesService from '@/services/preferencesService';
+import rateOverrideService from '@/services/rateOverrideService';
+import storage from '@/services/storage';
 
 export const unstable_settings = {
   anchor: '(tabs)',
 };
 
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
+  useEffect(() => {
+    // Bring stored data up to the current schema before any screen reads it
+    storage.ready().then(() => Promise.all([preferencesService.load(), rateOverrideService.load()]));
+  }, []);
+
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        <Stack.Screen name="chart" options={{ title: 'Rate Trend' }} />
+        <Stack.Screen name="alerts" options={{ title: 'Rate Alerts' }} />
+        <Stack.Screen name="manual-rates" options={{ title: 'Manual Rates' }} />
+        <Stack.Screen name="fee-profiles" options={{ title: 'Payment Methods' }} />
+        <Stack.Screen name="watchlists" options={{ title: 'Watchlists' }} />
+        <Stack.Screen name="settings" options={{ presentation: 'modal', title: 'Settings' }} />
       </Stack>
       <StatusBar style="auto" />
     </ThemeProvider>
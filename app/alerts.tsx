@@ -0,0 +1,6 @@
+import RateAlerts from '@/components/RateAlerts';
+import React from 'react';
+
+export default function AlertsScreen() {
+  return <RateAlerts />;
+}
@@ -0,0 +1,14 @@
+import RateTrendChart from '@/components/RateTrendChart';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import React from 'react';
+
+export default function ChartScreen() {
+  const { base = 'USD', quote = 'EUR' } = useLocalSearchParams<{ base?: string; quote?: string }>();
+
+  return (
+    <>
+      <Stack.Screen options={{ title: `${base}/${quote}` }} />
+      <RateTrendChart base={base} quote={quote} />
+    </>
+  );
+}
@@ -0,0 +1,16 @@
+import { Redirect, useLocalSearchParams } from 'expo-router';
+import React from 'react';
+
+import { parseConversionLink } from '@/services/conversionLink';
+
+// Entry point for conversion links, e.g. currencysnap://convert?amount=250&from=EUR&to=USD,GBP
+export default function ConvertScreen() {
+  const link = parseConversionLink(useLocalSearchParams());
+
+  const params: { [key: string]: string } = {};
+  if (link.amount) params.linkAmount = link.amount.toString();
+  if (link.from) params.linkFrom = link.from;
+  if (link.to.length > 0) params.linkTo = link.to.join(',');
+
+  return <Redirect href={{ pathname: '/', params }} />;
+}
@@ -0,0 +1,6 @@
+import FeeProfiles from '@/components/FeeProfiles';
+import React from 'react';
+
+export default function FeeProfilesScreen() {
+  return <FeeProfiles />;
+}
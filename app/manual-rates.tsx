@@ -0,0 +1,6 @@
+import ManualRates from '@/components/ManualRates';
+import React from 'react';
+
+export default function ManualRatesScreen() {
+  return <ManualRates />;
+}
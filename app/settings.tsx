@@ -0,0 +1,6 @@
+import Settings from '@/components/Settings';
+import React from 'react';
+
+export default function SettingsScreen() {
+  return <Settings />;
+}
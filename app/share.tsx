@@ -0,0 +1,9 @@
+import { Redirect, useLocalSearchParams } from 'expo-router';
+import React from 'react';
+
+// Entry point for text shared into the app, e.g. currencysnap://share?text=Total%3A%2012%2C50%20%E2%82%AC
+export default function ShareScreen() {
+  const { text } = useLocalSearchParams<{ text?: string }>();
+
+  return <Redirect href={{ pathname: '/', params: text ? { sharedText: text } : {} }} />;
+}
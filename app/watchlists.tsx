@@ -0,0 +1,6 @@
+import Watchlists from '@/components/Watchlists';
+import React from 'react';
+
+export default function WatchlistsScreen() {
+  return <Watchlists />;
+}
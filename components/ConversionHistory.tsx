@@ -0,0 +1,281 @@
+import { useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import { FlatList, Share, StyleSheet, Text, TextInput, TouchableOpacity, View, useColorScheme } from "react-native";
+import conversionHistoryService, { ConversionRecord, HistoryFilter } from "../services/conversionHistoryService";
+import currencyService from "../services/currencyService";
+import { Decimal } from "../services/decimal";
+
+type DateRange = "all" | "today" | "7d" | "30d";
+
+const DATE_RANGE_LABELS: Record<DateRange, string> = {
+  all: "All",
+  today: "Today",
+  "7d": "7 days",
+  "30d": "30 days",
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function rangeStart(range: DateRange): number | undefined {
+  switch (range) {
+    case "all":
+      return undefined;
+    case "today": {
+      const start = new Date();
+      start.setHours(0, 0, 0, 0);
+      return start.getTime();
+    }
+    case "7d":
+      return Date.now() - 7 * DAY;
+    case "30d":
+      return Date.now() - 30 * DAY;
+  }
+}
+
+const ConversionHistory: React.FC = () => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+
+  const [records, setRecords] = useState<ConversionRecord[]>([]);
+  const [query, setQuery] = useState<string>("");
+  const [dateRange, setDateRange] = useState<DateRange>("all");
+  const [pinnedOnly, setPinnedOnly] = useState<boolean>(false);
+
+  const loadRecords = useCallback(async () => {
+    const filter: HistoryFilter = { query, since: rangeStart(dateRange), pinnedOnly };
+    setRecords(await conversionHistoryService.search(filter));
+  }, [query, dateRange, pinnedOnly]);
+
+  // Conversions are recorded from the converter tab, so reload whenever this tab is shown
+  useFocusEffect(
+    useCallback(() => {
+      loadRecords();
+    }, [loadRecords])
+  );
+
+  const handleTogglePinned = async (record: ConversionRecord) => {
+    await conversionHistoryService.setPinned(record.id, !record.pinned);
+    await loadRecords();
+  };
+
+  const handleDelete = async (record: ConversionRecord) => {
+    await conversionHistoryService.deleteRecord(record.id);
+    await loadRecords();
+  };
+
+  const handleExport = async (format: "csv" | "json") => {
+    const message = format === "csv" ? conversionHistoryService.toCsv(records) : conversionHistoryService.toJson(records);
+    try {
+      await Share.share({ title: `CurrencySnap history.${format}`, message });
+    } catch (error) {
+      console.error("Error exporting history:", error);
+    }
+  };
+
+  const renderRecord = ({ item }: { item: ConversionRecord }) => (
+    <View style={[styles.recordItem, isDark && styles.darkRecordItem, item.pinned && styles.pinnedItem]}>
+      <View style={styles.recordInfo}>
+        <Text style={[styles.recordAmounts, isDark && styles.darkText]}>
+          {currencyService.formatCurrency(Decimal.from(item.amount), item.from)} →{" "}
+          {currencyService.formatCurrency(Decimal.from(item.result), item.to)}
+        </Text>
+        <Text style={styles.recordMeta}>
+          1 {item.from} = {item.rate} {item.to} · rates from {new Date(item.rateTimestamp).toLocaleString()}
+        </Text>
+        <Text style={styles.recordMeta}>{new Date(item.createdAt).toLocaleString()}</Text>
+      </View>
+      <TouchableOpacity style={styles.iconButton} onPress={() => handleTogglePinned(item)}>
+        <Text style={styles.iconButtonText}>{item.pinned ? "📌" : "📍"}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(item)}>
+        <Text style={styles.iconButtonText}>🗑️</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, isDark && styles.darkContainer]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.title}>History</Text>
+      </View>
+
+      {/* Filters */}
+      <View style={[styles.filterSection, isDark && styles.darkFilterSection]}>
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search: EUR, EUR/USD, 250"
+          autoCapitalize="characters"
+          autoCorrect={false}
+        />
+        <View style={styles.chipRow}>
+          {(Object.keys(DATE_RANGE_LABELS) as DateRange[]).map(range => (
+            <TouchableOpacity
+              key={range}
+              style={[styles.chip, range === dateRange && styles.chipActive]}
+              onPress={() => setDateRange(range)}>
+              <Text style={[styles.chipText, range === dateRange && styles.chipTextActive]}>{DATE_RANGE_LABELS[range]}</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={[styles.chip, pinnedOnly && styles.chipActive]} onPress={() => setPinnedOnly(!pinnedOnly)}>
+            <Text style={[styles.chipText, pinnedOnly && styles.chipTextActive]}>Pinned</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.exportRow}>
+          <TouchableOpacity style={styles.exportButton} onPress={() => handleExport("csv")} disabled={records.length === 0}>
+            <Text style={styles.exportButtonText}>Export CSV</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.exportButton} onPress={() => handleExport("json")} disabled={records.length === 0}>
+            <Text style={styles.exportButtonText}>Export JSON</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <FlatList
+        data={records}
+        keyExtractor={record => record.id}
+        renderItem={renderRecord}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={<Text style={styles.emptyText}>No conversions recorded yet.</Text>}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  darkContainer: {
+    backgroundColor: "#1a1a1a",
+  },
+  header: {
+    backgroundColor: "#007AFF",
+    paddingTop: 60,
+    paddingBottom: 30,
+    paddingHorizontal: 20,
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: "white",
+    marginBottom: 5,
+  },
+  filterSection: {
+    backgroundColor: "white",
+    margin: 20,
+    marginBottom: 10,
+    padding: 15,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  darkFilterSection: {
+    backgroundColor: "#2d2d2d",
+  },
+  searchInput: {
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: "#f8f9fa",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginRight: 8,
+    marginBottom: 6,
+    backgroundColor: "#e1e5e9",
+  },
+  chipActive: {
+    backgroundColor: "#007AFF",
+  },
+  chipText: {
+    color: "#333",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: "white",
+  },
+  exportRow: {
+    flexDirection: "row",
+    marginTop: 4,
+  },
+  exportButton: {
+    backgroundColor: "#28a745",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  exportButtonText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  recordItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  darkRecordItem: {
+    backgroundColor: "#2d2d2d",
+  },
+  pinnedItem: {
+    borderLeftWidth: 3,
+    borderLeftColor: "#ffa000",
+  },
+  recordInfo: {
+    flex: 1,
+  },
+  recordAmounts: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  darkText: {
+    color: "#fff",
+  },
+  recordMeta: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  iconButtonText: {
+    fontSize: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    marginTop: 20,
+  },
+});
+
+export default ConversionHistory;
@@ -1,5 +1,6 @@
-import { Picker } from "@react-native-picker/picker";
-import React, { useCallback, useEffect, useState } from "react";
+import * as Clipboard from "expo-clipboard";
+import { router, useLocalSearchParams } from "expo-router";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Keyboard,
@@ -13,129 +14,256 @@ import {
   View,
   useColorScheme,
 } from "react-native";
-import currencyService, { CurrencyData, POPULAR_CURRENCIES } from "../services/currencyService";
+import { CURRENCY_CODES, getAssetClass } from "../constants/currencies";
+import { useBaseCurrency } from "../hooks/use-base-currency";
+import { useExchangeRates } from "../hooks/use-exchange-rates";
+import { useFavorites } from "../hooks/use-favorites";
+import { useOnlineStatus } from "../hooks/use-online-status";
+import conversionHistoryService from "../services/conversionHistoryService";
+import { buildConversionLink, parseConversionLink } from "../services/conversionLink";
+import currencyService, { CurrencyData } from "../services/currencyService";
+import { Decimal } from "../services/decimal";
+import { isExpression, sanitizeExpressionInput, tryEvaluateExpression } from "../services/expression";
+import feeProfileService from "../services/feeProfileService";
+import { getDecimalSeparator, toAmountInput } from "../services/formatting";
+import preferencesService from "../services/preferencesService";
+import rateOverrideService from "../services/rateOverrideService";
+import { parsePrice } from "../services/priceParser";
+import { Watchlist } from "../services/watchlistService";
+import { CurrencyField } from "./CurrencyPicker";
 
 interface CurrencyConverterProps {}
 
+// Favorite cards switch to short notation ("$1.2M") above this amount
+const COMPACT_THRESHOLD = 1_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+// Shown in place of an amount the current rates cannot price
+const UNAVAILABLE = "unavailable";
+
 const CurrencyConverter: React.FC<CurrencyConverterProps> = () => {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === "dark";
 
   const [amount, setAmount] = useState<string>("");
-  const [baseCurrency, setBaseCurrency] = useState<string>("USD");
-  const [currencyData, setCurrencyData] = useState<CurrencyData | null>(null);
-  const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [favoriteCurrencies, setFavoriteCurrencies] = useState<string[]>([]);
+  // Base, rates and favorites come from the app-wide store, shared with every other screen
+  const { baseCurrency, isLoaded: isInitialized, setBaseCurrency } = useBaseCurrency();
+  const { data: currencyData, loading, refreshing, error, refresh } = useExchangeRates(baseCurrency);
+  const { favorites: favoriteCurrencies, watchlists, activeWatchlist, selectWatchlist } = useFavorites();
+  // Other currencies an ambiguous pasted symbol such as "$" or "kr" could have meant
+  const [pasteAlternatives, setPasteAlternatives] = useState<string[]>([]);
+  const [pasteNotice, setPasteNotice] = useState<string | null>(null);
+  // Target currencies requested by an opened conversion link, shown above favorites
+  const [linkedTargets, setLinkedTargets] = useState<string[]>([]);
+  // Formatting reads preferences at render time; keeping them in state re-renders on change
+  const [, setPreferences] = useState(preferencesService.snapshot);
+  const isOnline = useOnlineStatus();
+  // Refreshed whenever manual rates change, which also re-renders the marked rows
+  const [customCodes, setCustomCodes] = useState<string[]>(rateOverrideService.getActiveCustomCodes());
+  const [feeProfiles, setFeeProfiles] = useState(feeProfileService.snapshot);
+  const { sharedText, linkAmount, linkFrom, linkTo } = useLocalSearchParams<{
+    sharedText?: string;
+    linkAmount?: string;
+    linkFrom?: string;
+    linkTo?: string;
+  }>();
 
-  const loadBaseCurrency = useCallback(async () => {
-    try {
-      const savedBaseCurrency = await currencyService.getBaseCurrency();
-      setBaseCurrency(savedBaseCurrency);
-    } catch (error) {
-      console.error("Error loading base currency:", error);
-      setBaseCurrency("USD");
-    }
-  }, []);
+  // The amount field accepts arithmetic; conversions run on its evaluated value
+  const decimalSeparator = getDecimalSeparator(currencyService.getLocale());
+  const evaluatedAmount = useMemo(
+    () => tryEvaluateExpression(amount, { decimalSeparator, allowIncomplete: true }),
+    [amount, decimalSeparator]
+  );
 
-  const loadFavoriteCurrencies = useCallback(async () => {
-    try {
-      const favorites = await currencyService.getFavoriteCurrencies();
-      setFavoriteCurrencies(favorites);
-    } catch (error) {
-      console.error("Error loading favorite currencies:", error);
-    }
+  useEffect(() => preferencesService.subscribe(setPreferences), []);
+
+  useEffect(() => rateOverrideService.subscribe(() => setCustomCodes(rateOverrideService.getActiveCustomCodes())), []);
+
+  useEffect(() => {
+    feeProfileService.load();
+    return feeProfileService.subscribe(profiles => setFeeProfiles([...profiles]));
   }, []);
 
-  const loadExchangeRates = useCallback(async () => {
-    if (!baseCurrency) {
-      return;
-    }
+  const handleAmountChange = (text: string) => {
+    // Allow digits, separators, arithmetic operators and parentheses
+    setAmount(sanitizeExpressionInput(text));
+    setPasteNotice(null);
+    setPasteAlternatives([]);
+  };
 
-    setLoading(true);
-    setError(null);
+  const handleCurrencyChange = async (currency: string) => {
+    await setBaseCurrency(currency);
+  };
+
+  const applyPastedText = useCallback(
+    async (text: string) => {
+      const parsed = parsePrice(text, { preferredCurrencies: [baseCurrency, ...favoriteCurrencies] });
+      if (!parsed) {
+        setPasteNotice("No price found in the pasted text");
+        setPasteAlternatives([]);
+        return;
+      }
 
+      setAmount(toAmountInput(parsed.amount, decimalSeparator));
+      setPasteNotice(`Read "${parsed.matchedText.trim()}"`);
+      setPasteAlternatives(parsed.candidates.slice(1));
+      if (parsed.currency) {
+        await setBaseCurrency(parsed.currency);
+      }
+    },
+    [baseCurrency, decimalSeparator, favoriteCurrencies, setBaseCurrency]
+  );
+
+  const handlePaste = async () => {
     try {
-      const data = await currencyService.getExchangeRates(baseCurrency);
-      setCurrencyData(data);
-    } catch (err) {
-      console.error("Error loading exchange rates:", err);
-      setError(err instanceof Error ? err.message : "Failed to load exchange rates");
-    } finally {
-      setLoading(false);
+      const text = await Clipboard.getStringAsync();
+      await applyPastedText(text);
+    } catch (error) {
+      console.error("Error reading clipboard:", error);
     }
-  }, [baseCurrency]);
+  };
 
+  // Text shared into the app arrives as a route parameter. Applying it can change the base, which
+  // re-runs this effect before the parameter is cleared, so each shared text is applied once.
+  const appliedSharedText = useRef<string | null>(null);
   useEffect(() => {
-    const initializeApp = async () => {
-      await loadBaseCurrency();
-    };
-    initializeApp();
-  }, [loadBaseCurrency]);
+    if (!sharedText) {
+      appliedSharedText.current = null;
+      return;
+    }
+    if (isInitialized && sharedText !== appliedSharedText.current) {
+      appliedSharedText.current = sharedText;
+      applyPastedText(sharedText);
+      router.setParams({ sharedText: undefined });
+    }
+  }, [isInitialized, sharedText, applyPastedText]);
 
+  // Conversion links arrive through the /convert route, already validated
   useEffect(() => {
-    if (baseCurrency) {
-      loadExchangeRates();
-      loadFavoriteCurrencies();
+    if (!isInitialized || !(linkAmount || linkFrom || linkTo)) {
+      return;
     }
-  }, [baseCurrency, loadExchangeRates, loadFavoriteCurrencies]);
 
-  const handleAmountChange = (text: string) => {
-    // Allow only numbers and decimal point
-    const cleanText = text.replace(/[^0-9.]/g, "");
-    // Prevent multiple decimal points
-    const parts = cleanText.split(".");
-    if (parts.length <= 2) {
-      setAmount(cleanText);
+    const link = parseConversionLink({ amount: linkAmount, from: linkFrom, to: linkTo });
+    if (link.amount) {
+      setAmount(toAmountInput(link.amount, decimalSeparator));
     }
-  };
+    if (link.from) {
+      setBaseCurrency(link.from);
+    }
+    setLinkedTargets(link.to);
+    setPasteNotice(null);
+    setPasteAlternatives([]);
+    router.setParams({ linkAmount: undefined, linkFrom: undefined, linkTo: undefined });
+  }, [isInitialized, linkAmount, linkFrom, linkTo, decimalSeparator, setBaseCurrency]);
 
-  const handleCurrencyChange = async (currency: string) => {
-    setBaseCurrency(currency);
+  const handleCopyLink = async () => {
+    const targets = linkedTargets.length > 0 ? linkedTargets : favoriteCurrencies.filter(currency => currency !== baseCurrency);
+    const url = buildConversionLink({
+      amount: evaluatedAmount && !evaluatedAmount.isNegative() ? currencyService.roundMoney(evaluatedAmount, baseCurrency) : null,
+      from: baseCurrency,
+      to: targets,
+    });
     try {
-      await currencyService.setBaseCurrency(currency);
+      await Clipboard.setStringAsync(url);
+      setPasteAlternatives([]);
+      setPasteNotice("Link copied");
     } catch (error) {
-      console.error("Error saving base currency:", error);
+      console.error("Error copying link:", error);
     }
   };
 
+  const recordConversions = useCallback(
+    async (targets: string[]) => {
+      if (!currencyData || !evaluatedAmount || evaluatedAmount.isZero()) {
+        return;
+      }
+
+      const entries = targets.flatMap(target => {
+        const crossRate = currencyService.getCrossRate(baseCurrency, target, currencyData);
+        if (!crossRate) {
+          return [];
+        }
+        const result = currencyService.roundMoney(evaluatedAmount.multiply(crossRate.rate), target);
+        return [
+          {
+            amount: evaluatedAmount.toString(),
+            from: baseCurrency,
+            to: target,
+            rate: crossRate.rate.round(10).toString(),
+            result: result.toString(),
+            rateTimestamp: currencyData.publishedAt,
+          },
+        ];
+      });
+      await conversionHistoryService.addRecords(entries);
+    },
+    [baseCurrency, currencyData, evaluatedAmount]
+  );
+
+  // Conversions into favorites are logged once the user is done with the amount: when the field
+  // is submitted or left. Rates refreshing underneath do not log anything, nor does leaving the
+  // field again without changing the amount.
+  const lastRecordedAmount = useRef<string | null>(null);
+  const handleAmountDone = () => {
+    const key = evaluatedAmount ? `${evaluatedAmount.toString()} ${baseCurrency}` : null;
+    if (!currencyData || key === lastRecordedAmount.current) {
+      return;
+    }
+    lastRecordedAmount.current = key;
+    recordConversions(favoriteCurrencies.filter(currency => currency !== baseCurrency));
+  };
+
   const handleToggleFavorite = async (currency: string) => {
     try {
       const isNowFavorite = await currencyService.toggleFavoriteCurrency(currency);
-      await loadFavoriteCurrencies();
     } catch (error) {
       console.error("Error toggling favorite:", error);
     }
   };
 
-  const getSortedCurrencies = (currencies: string[]) => {
-    return [...currencies].sort((a, b) => a.localeCompare(b));
+  const openTrendChart = (currency: string) => {
+    router.push({ pathname: "/chart", params: { base: baseCurrency, quote: currency } });
   };
 
-  const formatAmount = (value: number, currency: string): string => {
-    if (value < 0.01) {
-      return currencyService.getCurrencySymbol(currency) + "0.00";
+  const handleSelectWatchlist = async (list: Watchlist) => {
+    await selectWatchlist(list);
+    const listBase = list.baseCurrency && currencyService.resolveCode(list.baseCurrency);
+    if (listBase && listBase !== baseCurrency) {
+      await handleCurrencyChange(listBase);
     }
+  };
 
-    return currencyService.formatCurrency(value, currency);
+  const formatAmount = (value: Decimal, currency: string, compact: boolean = false): string => {
+    return currencyService.formatCurrency(value, currency, { compact: compact && value.abs().compare(COMPACT_THRESHOLD) >= 0 });
   };
 
   const renderCurrencyItem = (currency: string, isFavorite: boolean = false, isHorizontal: boolean = false) => {
     if (!currencyData || amount === undefined) return null;
 
-    const numericAmount = parseFloat(amount) || 0;
-    const convertedAmount = currencyService.convertCurrency(numericAmount, baseCurrency, currency, currencyData.rates);
+    const convertedAmount = currencyService.convertCurrency(evaluatedAmount ?? Decimal.ZERO, baseCurrency, currency, currencyData);
+    const isManual = currencyService.getCrossRate(baseCurrency, currency, currencyData)?.manual ?? false;
+    const override = isManual ? rateOverrideService.findOverride(baseCurrency, currency) : null;
+    // What each payment method would actually deliver, cheapest first
+    const feeQuotes =
+      !isHorizontal && evaluatedAmount && !evaluatedAmount.isZero()
+        ? feeProfileService.quote(evaluatedAmount, baseCurrency, currency, currencyData, feeProfiles)
+        : [];
 
     if (isHorizontal) {
       return (
         <View key={currency} style={[styles.horizontalCurrencyItem, isDark && styles.darkHorizontalCurrencyItem]}>
-          <View style={styles.horizontalCurrencyInfo}>
-            <Text style={[styles.horizontalCurrencyCode, isDark && styles.darkHorizontalCurrencyCode]}>{currency}</Text>
+          <TouchableOpacity style={styles.horizontalCurrencyInfo} onPress={() => openTrendChart(currency)}>
+            <Text style={[styles.horizontalCurrencyCode, isDark && styles.darkHorizontalCurrencyCode]}>
+              {currency}
+              {isManual && <Text style={styles.manualMark}> ✎</Text>}
+            </Text>
             <Text style={[styles.horizontalCurrencySymbol, isDark && styles.darkHorizontalCurrencySymbol]}>
               {currencyService.getCurrencySymbol(currency)}
             </Text>
-          </View>
-          <Text style={styles.horizontalConvertedAmount}>{formatAmount(convertedAmount, currency)}</Text>
+          </TouchableOpacity>
+          <Text style={[styles.horizontalConvertedAmount, !convertedAmount && styles.unavailableAmount]}>
+            {convertedAmount ? formatAmount(convertedAmount, currency, true) : UNAVAILABLE}
+          </Text>
           <TouchableOpacity style={styles.horizontalFavoriteButton} onPress={() => handleToggleFavorite(currency)}>
             <Text style={styles.favoriteButtonText}>❤️</Text>
           </TouchableOpacity>
@@ -145,13 +273,34 @@ const CurrencyConverter: React.FC<CurrencyConverterProps> = () => {
 
     return (
       <View key={currency} style={[styles.currencyItem, isFavorite && styles.favoriteItem]}>
-        <View style={styles.currencyInfo}>
+        <TouchableOpacity style={styles.currencyInfo} onPress={() => openTrendChart(currency)}>
           <Text style={styles.currencyCode}>{currency}</Text>
-          <Text style={styles.currencySymbol}>{currencyService.getCurrencySymbol(currency)}</Text>
+          <View>
+            <Text style={styles.currencySymbol}>{currencyService.getCurrencySymbol(currency)}</Text>
+            <Text style={styles.currencyName} numberOfLines={1}>
+              {currencyService.getCurrencyName(currency)}
+            </Text>
+            {getAssetClass(currency) !== "fiat" && (
+              <Text style={styles.assetBadge}>{getAssetClass(currency) === "crypto" ? "Crypto" : "Metal"}</Text>
+            )}
+          </View>
           {isFavorite && <Text style={styles.favoriteStar}>⭐</Text>}
-        </View>
+          <Text style={styles.trendIcon}>📈</Text>
+        </TouchableOpacity>
         <View style={styles.currencyRight}>
-          <Text style={styles.convertedAmount}>{formatAmount(convertedAmount, currency)}</Text>
+          <View style={styles.amountColumn}>
+            <TouchableOpacity onPress={() => recordConversions([currency])}>
+              <Text style={[styles.convertedAmount, !convertedAmount && styles.unavailableAmount]}>
+                {convertedAmount ? formatAmount(convertedAmount, currency) : UNAVAILABLE}
+              </Text>
+            </TouchableOpacity>
+            {override && (
+              <TouchableOpacity onPress={() => rateOverrideService.revertToLive(baseCurrency, currency)}>
+                <Text style={styles.manualBadge}>✎ Manual rate · use live</Text>
+              </TouchableOpacity>
+            )}
+            {isManual && !override && <Text style={styles.manualBadge}>✎ Custom value</Text>}
+          </View>
           <TouchableOpacity style={styles.favoriteButton} onPress={() => handleToggleFavorite(currency)}>
             <Text style={styles.favoriteButtonText}>{favoriteCurrencies.includes(currency) ? "❤️" : "🤍"}</Text>
           </TouchableOpacity>
@@ -159,26 +308,57 @@ const CurrencyConverter: React.FC<CurrencyConverterProps> = () => {
         <View>
           <TouchableOpacity
             style={styles.toggleBaseButton}
-            onPress={async () => {
-              if (baseCurrency !== currency) {
-                setBaseCurrency(currency);
-                try {
-                  await currencyService.setBaseCurrency(currency);
-                } catch (error) {
-                  console.error("Error saving base currency:", error);
-                }
-              }
-            }}>
+            onPress={() => handleCurrencyChange(currency)}>
             <Text style={styles.toggleButtonText}>Set as {"\n"} Base</Text>
           </TouchableOpacity>
         </View>
+        {feeQuotes.length > 0 && (
+          <View style={styles.feeQuotes}>
+            {feeQuotes.map((quote, index) => (
+              <Text key={quote.profile.id} style={[styles.feeQuoteText, index === 0 && styles.cheapestQuoteText]}>
+                {quote.profile.name}: {formatAmount(quote.received, currency)}
+                {index === 0 && feeQuotes.length > 1 ? " · cheapest" : ""} (fee {formatAmount(quote.fee, baseCurrency)})
+              </Text>
+            ))}
+          </View>
+        )}
       </View>
     );
   };
 
+  const formatDateTime = (timestamp: number): string => {
+    return new Date(timestamp).toLocaleString(currencyService.getLocale(), { dateStyle: "medium", timeStyle: "short" });
+  };
+
+  // Why the rates on screen may not be current, most pressing reason first; demo rates have their own label
+  const getFreshnessWarning = (data: CurrencyData): string | null => {
+    if (data.provider === "fixture") {
+      return null;
+    }
+    if (!isOnline) {
+      return `Offline · showing rates saved ${formatDateTime(data.fetchedAt)}`;
+    }
+    if (data.source === "stale-cache") {
+      return `Couldn't refresh rates · showing a copy saved ${formatDateTime(data.fetchedAt)}`;
+    }
+    if (currencyService.isStale(data) && !refreshing) {
+      return "Rates may be out of date · tap Refresh";
+    }
+    if (data.assetsFetchedAt !== undefined && currencyService.hasStaleAssets(data)) {
+      return `Couldn't refresh crypto and metal prices · showing prices from ${formatDateTime(data.assetsFetchedAt)}`;
+    }
+    if (currencyService.isOutdated(data)) {
+      const days = Math.floor((Date.now() - data.publishedAt) / DAY);
+      return `The provider has not published new rates for ${days} days`;
+    }
+    return null;
+  };
+
+  const freshnessWarning = currencyData ? getFreshnessWarning(currencyData) : null;
+
   const handleRefresh = () => {
     Keyboard.dismiss();
-    loadExchangeRates();
+    refresh();
   };
 
   return (
@@ -188,35 +368,100 @@ const CurrencyConverter: React.FC<CurrencyConverterProps> = () => {
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.title}>CurrencySnap</Text>
+        <TouchableOpacity style={[styles.headerButton, styles.headerButtonLeft]} onPress={() => router.push("/settings")}>
+          <Text style={styles.headerButtonText}>⚙️</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.headerButton} onPress={() => router.push("/alerts")}>
+          <Text style={styles.headerButtonText}>🔔</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Input Section */}
       <View style={[styles.inputSection, isDark && styles.darkInputSection]}>
         <View style={styles.amountContainer}>
-          <Text style={[styles.label, isDark && styles.darkLabel]}>Amount</Text>
+          <View style={styles.amountHeader}>
+            <Text style={[styles.label, isDark && styles.darkLabel]}>Amount</Text>
+            <View style={styles.amountActions}>
+              <TouchableOpacity style={styles.pasteButton} onPress={handleCopyLink}>
+                <Text style={styles.pasteButtonText}>Copy link</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.pasteButton} onPress={handlePaste}>
+                <Text style={styles.pasteButtonText}>Paste</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
           <TextInput
             style={styles.amountInput}
             value={amount}
             onChangeText={handleAmountChange}
+            onBlur={handleAmountDone}
             placeholder="0.00"
-            keyboardType="numeric"
+            keyboardType={Platform.OS === "ios" ? "numbers-and-punctuation" : "default"}
             returnKeyType="done"
             onSubmitEditing={Keyboard.dismiss}
           />
+          {isExpression(amount) && (
+            <Text style={[styles.expressionPreview, isDark && styles.darkLabel]}>
+              {evaluatedAmount ? `= ${currencyService.formatCurrency(evaluatedAmount, baseCurrency)}` : "Incomplete expression"}
+            </Text>
+          )}
+          {pasteNotice && (
+            <View style={styles.pasteNotice}>
+              <Text style={styles.pasteNoticeText}>{pasteNotice}</Text>
+              {pasteAlternatives.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                  <Text style={styles.pasteNoticeText}>Not {baseCurrency}? </Text>
+                  {pasteAlternatives.map(currency => (
+                    <TouchableOpacity
+                      key={currency}
+                      style={styles.alternativeButton}
+                      onPress={() => {
+                        setPasteAlternatives([]);
+                        handleCurrencyChange(currency);
+                      }}>
+                      <Text style={styles.alternativeButtonText}>{currency}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              )}
+            </View>
+          )}
         </View>
 
         <View style={styles.currencyContainer}>
           <Text style={[styles.label, isDark && styles.darkLabel]}>From Currency</Text>
           <View style={styles.pickerContainer}>
-            <Picker selectedValue={baseCurrency} onValueChange={handleCurrencyChange} style={styles.picker}>
-              {getSortedCurrencies(POPULAR_CURRENCIES).map(currency => (
-                <Picker.Item key={currency} label={`${currency} - ${currencyService.getCurrencySymbol(currency)}`} value={currency} />
-              ))}
-            </Picker>
+            <CurrencyField
+              value={baseCurrency}
+              onChange={handleCurrencyChange}
+              currencies={[...CURRENCY_CODES, ...customCodes]}
+              title="From Currency"
+            />
           </View>
         </View>
       </View>
 
+      {/* Demo rates are always labelled, whatever their age */}
+      {currencyData?.provider === "fixture" && (
+        <View style={[styles.statusBanner, styles.demoBanner]}>
+          <Text style={[styles.statusText, styles.demoText]}>Demo rates · not live, for testing only</Text>
+        </View>
+      )}
+
+      {/* Rate Freshness */}
+      {currencyData && (
+        <Text style={[styles.asOfText, isDark && styles.darkLabel]}>
+          Rates as of {formatDateTime(currencyData.publishedAt)}
+          {currencyData.source !== "network" ? ` · saved ${formatDateTime(currencyData.fetchedAt)}` : ""}
+          {refreshing ? " · updating…" : ""}
+        </Text>
+      )}
+      {freshnessWarning && (
+        <View style={styles.statusBanner}>
+          <Text style={styles.statusText}>{freshnessWarning}</Text>
+        </View>
+      )}
+
       {/* Error State */}
       {error && (
         <View style={styles.errorContainer}>
@@ -235,15 +480,50 @@ const CurrencyConverter: React.FC<CurrencyConverterProps> = () => {
         </View>
       )}
 
-      {currencyData && !loading && (
+      {currencyData && (
         <ScrollView style={styles.scrollContainer} contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
-          {favoriteCurrencies.length > 0 && (
+          {linkedTargets.length > 0 && (
             <View style={[styles.favoritesSection, isDark && styles.darkFavoritesSection]}>
-              <Text style={[styles.favoritesTitle, isDark && styles.darkFavoritesTitle]}>Favorites</Text>
+              <View style={styles.resultsHeader}>
+                <Text style={[styles.favoritesTitle, isDark && styles.darkFavoritesTitle]}>From link</Text>
+                <TouchableOpacity onPress={() => setLinkedTargets([])}>
+                  <Text style={styles.dismissText}>✕</Text>
+                </TouchableOpacity>
+              </View>
               <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.favoritesScroll}>
-                {getSortedCurrencies(favoriteCurrencies.filter(currency => currency !== baseCurrency)).map(currency =>
-                  renderCurrencyItem(currency, true, true)
-                )}
+                {linkedTargets
+                  // Currencies without a rate stay in place and show as unavailable
+                  .filter(currency => currency !== baseCurrency)
+                  .map(currency => renderCurrencyItem(currency, true, true))}
+              </ScrollView>
+            </View>
+          )}
+
+          {(favoriteCurrencies.length > 0 || watchlists.length > 1) && (
+            <View style={[styles.favoritesSection, isDark && styles.darkFavoritesSection]}>
+              <View style={styles.resultsHeader}>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.watchlistSwitcher}>
+                  {watchlists.map(list => (
+                    <TouchableOpacity
+                      key={list.id}
+                      style={[styles.watchlistChip, list.id === activeWatchlist.id && styles.activeWatchlistChip]}
+                      onPress={() => handleSelectWatchlist(list)}>
+                      <Text style={[styles.watchlistChipText, list.id === activeWatchlist.id && styles.activeWatchlistChipText]}>
+                        {list.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+                <TouchableOpacity onPress={() => router.push("/watchlists")}>
+                  <Text style={styles.editListsText}>Edit</Text>
+                </TouchableOpacity>
+              </View>
+              {favoriteCurrencies.length === 0 && <Text style={styles.pivotText}>Tap 🤍 on a currency to add it to this list</Text>}
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.favoritesScroll}>
+                {favoriteCurrencies
+                  // Currencies without a rate stay in place and show as unavailable
+                  .filter(currency => currency !== baseCurrency)
+                  .map(currency => renderCurrencyItem(currency, true, true))}
               </ScrollView>
             </View>
           )}
@@ -251,16 +531,20 @@ const CurrencyConverter: React.FC<CurrencyConverterProps> = () => {
           {/* Currency List */}
           <View style={[styles.resultsSection, isDark && styles.darkResultsSection]}>
             <View style={styles.resultsHeader}>
-              <Text style={[styles.resultsTitle, isDark && styles.darkResultsTitle]}>All Currencies</Text>
+              <View>
+                <Text style={[styles.resultsTitle, isDark && styles.darkResultsTitle]}>All Currencies</Text>
+                {currencyData.base !== baseCurrency && <Text style={styles.pivotText}>Cross rates via {currencyData.base}</Text>}
+              </View>
               <TouchableOpacity style={styles.refreshButton} onPress={handleRefresh}>
                 <Text style={styles.refreshButtonText}>Refresh</Text>
               </TouchableOpacity>
             </View>
 
             <View style={[styles.currencyList, isDark && styles.darkCurrencyList]}>
-              {getSortedCurrencies(POPULAR_CURRENCIES.filter(currency => currency !== baseCurrency)).map(currency =>
-                renderCurrencyItem(currency, false, false)
-              )}
+              {currencyService
+                .getAvailableCurrencies(currencyData)
+                .filter(currency => currency !== baseCurrency)
+                .map(currency => renderCurrencyItem(currency, false, false))}
             </View>
           </View>
         </ScrollView>
@@ -290,6 +574,19 @@ const styles = StyleSheet.create({
     color: "white",
     marginBottom: 5,
   },
+  headerButton: {
+    position: "absolute",
+    right: 20,
+    bottom: 30,
+    padding: 5,
+  },
+  headerButtonLeft: {
+    right: undefined,
+    left: 20,
+  },
+  headerButtonText: {
+    fontSize: 22,
+  },
   subtitle: {
     fontSize: 16,
     color: "rgba(255, 255, 255, 0.8)",
@@ -311,6 +608,55 @@ const styles = StyleSheet.create({
   amountContainer: {
     marginBottom: 20,
   },
+  amountHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  amountActions: {
+    flexDirection: "row",
+  },
+  pasteButton: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 4,
+    marginBottom: 8,
+    marginLeft: 8,
+  },
+  pasteButtonText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  pasteNotice: {
+    marginTop: 8,
+  },
+  pasteNoticeText: {
+    fontSize: 12,
+    color: "#666",
+    alignSelf: "center",
+  },
+  alternativeButton: {
+    borderWidth: 1,
+    borderColor: "#007AFF",
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginLeft: 6,
+    marginTop: 4,
+  },
+  alternativeButtonText: {
+    color: "#007AFF",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  expressionPreview: {
+    marginTop: 6,
+    fontSize: 16,
+    color: "#666",
+    textAlign: "right",
+  },
   currencyContainer: {
     marginBottom: 10,
   },
@@ -338,8 +684,32 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     backgroundColor: "#f8f9fa",
   },
-  picker: {
-    height: 50,
+  statusBanner: {
+    backgroundColor: "#fff8e1",
+    marginHorizontal: 20,
+    marginTop: 10,
+    padding: 10,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: "#ffa000",
+  },
+  statusText: {
+    color: "#8d6e00",
+    fontSize: 13,
+  },
+  asOfText: {
+    marginHorizontal: 20,
+    marginTop: 8,
+    fontSize: 12,
+    color: "#666",
+  },
+  demoBanner: {
+    backgroundColor: "#ede7f6",
+    borderLeftColor: "#673ab7",
+  },
+  demoText: {
+    color: "#4527a0",
+    fontWeight: "600",
   },
   errorContainer: {
     backgroundColor: "#ffebee",
@@ -401,6 +771,11 @@ const styles = StyleSheet.create({
   darkResultsTitle: {
     color: "#fff",
   },
+  pivotText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
   refreshButton: {
     backgroundColor: "#007AFF",
     paddingHorizontal: 15,
@@ -432,6 +807,7 @@ const styles = StyleSheet.create({
   },
   currencyItem: {
     flexDirection: "row",
+    flexWrap: "wrap",
     justifyContent: "space-between",
     alignItems: "center",
     padding: 15,
@@ -459,9 +835,52 @@ const styles = StyleSheet.create({
     color: "#666",
     marginRight: 8,
   },
+  currencyName: {
+    fontSize: 12,
+    color: "#999",
+    maxWidth: 140,
+  },
+  assetBadge: {
+    alignSelf: "flex-start",
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#6a1b9a",
+    backgroundColor: "#f3e5f5",
+    paddingHorizontal: 4,
+    borderRadius: 3,
+    marginTop: 2,
+  },
+  feeQuotes: {
+    width: "100%",
+    marginTop: 6,
+  },
+  feeQuoteText: {
+    fontSize: 12,
+    color: "#666",
+  },
+  cheapestQuoteText: {
+    color: "#28a745",
+    fontWeight: "600",
+  },
+  amountColumn: {
+    alignItems: "flex-end",
+  },
+  manualBadge: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#e65100",
+    marginTop: 2,
+  },
+  manualMark: {
+    color: "#e65100",
+  },
   favoriteStar: {
     fontSize: 12,
   },
+  trendIcon: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
   currencyRight: {
     flexDirection: "row",
     alignItems: "center",
@@ -472,6 +891,11 @@ const styles = StyleSheet.create({
     color: "#007AFF",
     marginRight: 10,
   },
+  unavailableAmount: {
+    color: "#999",
+    fontStyle: "italic",
+    fontWeight: "normal",
+  },
   favoriteButton: {
     padding: 5,
   },
@@ -538,6 +962,39 @@ const styles = StyleSheet.create({
   favoritesScroll: {
     flexDirection: "row",
   },
+  watchlistSwitcher: {
+    flex: 1,
+    marginBottom: 10,
+  },
+  watchlistChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginRight: 8,
+    backgroundColor: "#e1e5e9",
+  },
+  activeWatchlistChip: {
+    backgroundColor: "#007AFF",
+  },
+  watchlistChipText: {
+    color: "#333",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  activeWatchlistChipText: {
+    color: "white",
+  },
+  editListsText: {
+    color: "#007AFF",
+    fontWeight: "600",
+    paddingLeft: 10,
+    marginBottom: 10,
+  },
+  dismissText: {
+    fontSize: 16,
+    color: "#999",
+    padding: 5,
+  },
   horizontalCurrencyItem: {
     backgroundColor: "#f8f9fa",
     borderRadius: 8,
@@ -0,0 +1,307 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Modal,
+  SectionList,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+  useColorScheme,
+} from "react-native";
+import { CURRENCY_CODES, getCurrencyFlag } from "../constants/currencies";
+import { useFavorites } from "../hooks/use-favorites";
+import { describeCurrency, searchCurrencies } from "../services/currencySearch";
+import currencyService from "../services/currencyService";
+import rateOverrideService from "../services/rateOverrideService";
+
+interface CurrencyPickerProps {
+  visible: boolean;
+  // Null marks the "none" entry as chosen
+  selected?: string | null;
+  // Currencies to choose from; every catalog and active custom currency by default
+  currencies?: string[];
+  title?: string;
+  // Adds an entry above the list for choosing no currency at all, e.g. "Keep the current base"
+  noneLabel?: string;
+  onSelect: (currency: string) => void;
+  onSelectNone?: () => void;
+  onClose: () => void;
+}
+
+interface CurrencySection {
+  title: string;
+  data: string[];
+}
+
+// Flag for fiat, otherwise the symbol (₿, custom units) so every row has a marker
+function getCurrencyMark(currency: string): string {
+  return getCurrencyFlag(currency) || currencyService.getCurrencySymbol(currency);
+}
+
+// Full-screen currency chooser with search by code, name or country, and recent and favorite sections
+const CurrencyPicker: React.FC<CurrencyPickerProps> = ({
+  visible,
+  selected,
+  currencies,
+  title = "Choose Currency",
+  noneLabel,
+  onSelect,
+  onSelectNone,
+  onClose,
+}) => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+
+  const [query, setQuery] = useState<string>("");
+  const [recents, setRecents] = useState<string[]>([]);
+  const { favorites } = useFavorites();
+
+  const options = useMemo(() => currencies ?? [...CURRENCY_CODES, ...rateOverrideService.getActiveCustomCodes()], [currencies]);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    setQuery("");
+    currencyService.getRecentCurrencies().then(setRecents);
+  }, [visible]);
+
+  const sections = useMemo<CurrencySection[]>(() => {
+    if (query.trim()) {
+      const searchable = options.map(code => describeCurrency(code, currencyService.getCurrencyName(code)));
+      return [{ title: "Results", data: searchCurrencies(query, searchable).map(currency => currency.code) }];
+    }
+    return [
+      { title: "Recent", data: recents.filter(code => options.includes(code)) },
+      { title: "Favorites", data: favorites.filter(code => options.includes(code)) },
+      { title: "All Currencies", data: options },
+    ].filter(section => section.data.length > 0);
+  }, [query, options, recents, favorites]);
+
+  const handleSelect = (currency: string) => {
+    currencyService.addRecentCurrency(currency);
+    onSelect(currency);
+    onClose();
+  };
+
+  const handleSelectNone = () => {
+    onSelectNone?.();
+    onClose();
+  };
+
+  const isNoneSelected = selected === null;
+  const noneRow =
+    noneLabel && !query.trim() ? (
+      <TouchableOpacity style={[styles.row, isNoneSelected && styles.selectedRow]} onPress={handleSelectNone}>
+        <Text style={styles.mark}>–</Text>
+        <View style={styles.rowInfo}>
+          <Text style={[styles.code, isDark && styles.darkText]}>{noneLabel}</Text>
+        </View>
+        {isNoneSelected && <Text style={styles.check}>✓</Text>}
+      </TouchableOpacity>
+    ) : null;
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="fullScreen" onRequestClose={onClose}>
+      <View style={[styles.container, isDark && styles.darkContainer]}>
+        <View style={styles.header}>
+          <Text style={[styles.title, isDark && styles.darkText]}>{title}</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.closeText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+        <TextInput
+          style={[styles.searchInput, isDark && styles.darkSearchInput]}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search code, name or country"
+          placeholderTextColor="#999"
+          autoCorrect={false}
+          autoCapitalize="none"
+          autoFocus
+        />
+        <SectionList
+          sections={sections}
+          // The same currency can be listed under Recent, Favorites and All Currencies
+          keyExtractor={(item, index) => `${item}-${index}`}
+          keyboardShouldPersistTaps="handled"
+          stickySectionHeadersEnabled
+          ListHeaderComponent={noneRow}
+          renderSectionHeader={({ section }) => (
+            <Text style={[styles.sectionHeader, isDark && styles.darkSectionHeader]}>{section.title}</Text>
+          )}
+          renderItem={({ item }) => (
+            <TouchableOpacity style={[styles.row, item === selected && styles.selectedRow]} onPress={() => handleSelect(item)}>
+              <Text style={styles.mark}>{getCurrencyMark(item)}</Text>
+              <View style={styles.rowInfo}>
+                <Text style={[styles.code, isDark && styles.darkText]}>{item}</Text>
+                <Text style={styles.name} numberOfLines={1}>
+                  {currencyService.getCurrencyName(item)}
+                </Text>
+              </View>
+              {item === selected && <Text style={styles.check}>✓</Text>}
+            </TouchableOpacity>
+          )}
+          ListEmptyComponent={<Text style={styles.emptyText}>No currency matches “{query}”</Text>}
+        />
+      </View>
+    </Modal>
+  );
+};
+
+interface CurrencyFieldProps {
+  // Null when the optional "none" entry is chosen
+  value: string | null;
+  onChange: (currency: string) => void;
+  currencies?: string[];
+  title?: string;
+  // Makes the field optional: the label is shown while no currency is chosen
+  noneLabel?: string;
+  onClear?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Shows the chosen currency and opens the picker when tapped; a drop-in for a currency dropdown
+export const CurrencyField: React.FC<CurrencyFieldProps> = ({ value, onChange, currencies, title, noneLabel, onClear, style }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+
+  return (
+    <>
+      <TouchableOpacity style={[styles.field, style]} onPress={() => setIsOpen(true)}>
+        <Text style={styles.fieldText} numberOfLines={1}>
+          {value === null ? noneLabel : `${getCurrencyMark(value)} ${value} - ${currencyService.getCurrencyName(value)}`}
+        </Text>
+        <Text style={styles.fieldChevron}>▾</Text>
+      </TouchableOpacity>
+      <CurrencyPicker
+        visible={isOpen}
+        selected={value}
+        currencies={currencies}
+        title={title}
+        noneLabel={noneLabel}
+        onSelect={onChange}
+        onSelectNone={onClear}
+        onClose={() => setIsOpen(false)}
+      />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+    paddingTop: 50,
+  },
+  darkContainer: {
+    backgroundColor: "#1a1a1a",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  darkText: {
+    color: "#fff",
+  },
+  closeText: {
+    color: "#007AFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  searchInput: {
+    marginHorizontal: 20,
+    marginBottom: 10,
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: "white",
+  },
+  darkSearchInput: {
+    backgroundColor: "#2d2d2d",
+    borderColor: "#444",
+    color: "#fff",
+  },
+  sectionHeader: {
+    paddingHorizontal: 20,
+    paddingVertical: 6,
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    backgroundColor: "#f0f0f0",
+  },
+  darkSectionHeader: {
+    backgroundColor: "#2d2d2d",
+    color: "#ccc",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e1e5e9",
+  },
+  selectedRow: {
+    backgroundColor: "#e3f2fd",
+  },
+  mark: {
+    width: 36,
+    fontSize: 22,
+    textAlign: "center",
+    marginRight: 12,
+    color: "#666",
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  code: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  name: {
+    fontSize: 13,
+    color: "#666",
+  },
+  check: {
+    fontSize: 18,
+    color: "#007AFF",
+    fontWeight: "bold",
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#666",
+    marginTop: 30,
+  },
+  field: {
+    flexDirection: "row",
+    alignItems: "center",
+    minHeight: 50,
+    paddingHorizontal: 12,
+  },
+  fieldText: {
+    flex: 1,
+    fontSize: 16,
+    color: "#333",
+  },
+  fieldChevron: {
+    fontSize: 14,
+    color: "#999",
+    marginLeft: 6,
+  },
+});
+
+export default CurrencyPicker;
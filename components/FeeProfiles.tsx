@@ -0,0 +1,283 @@
+import React, { useEffect, useState } from "react";
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View, useColorScheme } from "react-native";
+import { CURRENCY_CODES } from "../constants/currencies";
+import { Decimal } from "../services/decimal";
+import feeProfileService, { FeeProfile } from "../services/feeProfileService";
+import { CurrencyField } from "./CurrencyPicker";
+
+function parseFeeField(text: string): Decimal | null {
+  const normalized = text.trim().replace(",", ".") || "0";
+  return /^\d+(\.\d+)?$/.test(normalized) ? Decimal.parse(normalized) : null;
+}
+
+function describeProfile(profile: FeeProfile): string {
+  const suffix = profile.feeCurrency ? ` ${profile.feeCurrency}` : "";
+  const parts = [`${profile.markupPercent}% markup`];
+  if (!Decimal.parse(profile.fixedFee).isZero()) {
+    parts.push(`${profile.fixedFee}${suffix} fee`);
+  }
+  if (!Decimal.parse(profile.minimumFee).isZero()) {
+    parts.push(`min ${profile.minimumFee}${suffix}`);
+  }
+  return parts.join(" · ");
+}
+
+const FeeProfiles: React.FC = () => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+
+  const [profiles, setProfiles] = useState<FeeProfile[]>(feeProfileService.snapshot);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState<string>("");
+  const [markup, setMarkup] = useState<string>("");
+  const [fixedFee, setFixedFee] = useState<string>("");
+  const [minimumFee, setMinimumFee] = useState<string>("");
+  const [feeCurrency, setFeeCurrency] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    feeProfileService.load().then(setProfiles);
+    return feeProfileService.subscribe(updated => setProfiles([...updated]));
+  }, []);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setMarkup("");
+    setFixedFee("");
+    setMinimumFee("");
+    setFeeCurrency(null);
+    setError(null);
+  };
+
+  const handleEdit = (profile: FeeProfile) => {
+    setEditingId(profile.id);
+    setName(profile.name);
+    setMarkup(profile.markupPercent);
+    setFixedFee(profile.fixedFee);
+    setMinimumFee(profile.minimumFee);
+    setFeeCurrency(profile.feeCurrency);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const parsedMarkup = parseFeeField(markup);
+    const parsedFixed = parseFeeField(fixedFee);
+    const parsedMinimum = parseFeeField(minimumFee);
+    if (!name.trim()) {
+      setError("Give the payment method a name");
+      return;
+    }
+    if (!parsedMarkup || !parsedFixed || !parsedMinimum) {
+      setError("Fees must be zero or positive numbers");
+      return;
+    }
+
+    await feeProfileService.saveProfile({
+      id: editingId ?? undefined,
+      name: name.trim(),
+      markupPercent: parsedMarkup.toString(),
+      fixedFee: parsedFixed.toString(),
+      minimumFee: parsedMinimum.toString(),
+      feeCurrency,
+    });
+    resetForm();
+  };
+
+  return (
+    <ScrollView style={[styles.container, isDark && styles.darkContainer]} keyboardShouldPersistTaps="handled">
+      <View style={[styles.section, isDark && styles.darkSection]}>
+        <Text style={[styles.sectionTitle, isDark && styles.darkText]}>{editingId ? "Edit Payment Method" : "New Payment Method"}</Text>
+        <Text style={styles.hintText}>Fees are taken from the amount before it is converted.</Text>
+        <TextInput style={styles.textInput} value={name} onChangeText={setName} placeholder="Name, e.g. Travel card" />
+
+        <Text style={styles.label}>FX markup or spread (%)</Text>
+        <TextInput style={styles.textInput} value={markup} onChangeText={setMarkup} placeholder="2.5" keyboardType="decimal-pad" />
+
+        <View style={styles.feeRow}>
+          <View style={styles.feeField}>
+            <Text style={styles.label}>Fixed fee</Text>
+            <TextInput style={styles.textInput} value={fixedFee} onChangeText={setFixedFee} placeholder="0" keyboardType="decimal-pad" />
+          </View>
+          <View style={styles.feeField}>
+            <Text style={styles.label}>Minimum fee</Text>
+            <TextInput
+              style={styles.textInput}
+              value={minimumFee}
+              onChangeText={setMinimumFee}
+              placeholder="0"
+              keyboardType="decimal-pad"
+            />
+          </View>
+        </View>
+
+        <Text style={styles.label}>Fees charged in</Text>
+        <View style={styles.pickerContainer}>
+          <CurrencyField
+            value={feeCurrency}
+            onChange={setFeeCurrency}
+            currencies={CURRENCY_CODES}
+            title="Fees charged in"
+            noneLabel="The currency converted from"
+            onClear={() => setFeeCurrency(null)}
+          />
+        </View>
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        <TouchableOpacity style={styles.primaryButton} onPress={handleSave}>
+          <Text style={styles.primaryButtonText}>{editingId ? "Save Changes" : "Add Payment Method"}</Text>
+        </TouchableOpacity>
+        {editingId && (
+          <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={[styles.section, styles.lastSection, isDark && styles.darkSection]}>
+        <Text style={[styles.sectionTitle, isDark && styles.darkText]}>Payment Methods</Text>
+        {profiles.length === 0 && <Text style={styles.hintText}>No payment methods yet.</Text>}
+        {profiles.map(profile => (
+          <View key={profile.id} style={styles.profileItem}>
+            <TouchableOpacity style={styles.profileInfo} onPress={() => handleEdit(profile)}>
+              <Text style={[styles.profileName, isDark && styles.darkText]}>{profile.name}</Text>
+              <Text style={styles.metaText}>{describeProfile(profile)}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.deleteButton} onPress={() => feeProfileService.deleteProfile(profile.id)}>
+              <Text style={styles.deleteButtonText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  darkContainer: {
+    backgroundColor: "#1a1a1a",
+  },
+  section: {
+    backgroundColor: "white",
+    margin: 20,
+    marginBottom: 0,
+    padding: 15,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  lastSection: {
+    marginBottom: 20,
+  },
+  darkSection: {
+    backgroundColor: "#2d2d2d",
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 5,
+  },
+  darkText: {
+    color: "#fff",
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#666",
+    marginBottom: 10,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  textInput: {
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: "#f8f9fa",
+  },
+  feeRow: {
+    flexDirection: "row",
+  },
+  feeField: {
+    flex: 1,
+    marginRight: 8,
+  },
+  pickerContainer: {
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    backgroundColor: "#f8f9fa",
+  },
+  errorText: {
+    color: "#c62828",
+    fontSize: 14,
+    marginTop: 8,
+  },
+  primaryButton: {
+    backgroundColor: "#007AFF",
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    color: "#007AFF",
+    fontWeight: "600",
+  },
+  profileItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  metaText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+  deleteButton: {
+    backgroundColor: "#f44336",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  deleteButtonText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+});
+
+export default FeeProfiles;
@@ -0,0 +1,391 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View, useColorScheme } from "react-native";
+import { CURRENCY_CODES } from "../constants/currencies";
+import { Decimal } from "../services/decimal";
+import rateOverrideService, { CustomCurrency, isExpired, RateOverride } from "../services/rateOverrideService";
+import { isCurrencyCode } from "../services/schemas";
+import { CurrencyField } from "./CurrencyPicker";
+
+type Expiry = "never" | "1d" | "7d" | "30d";
+
+const EXPIRY_LABELS: Record<Expiry, string> = {
+  never: "No expiry",
+  "1d": "1 day",
+  "7d": "7 days",
+  "30d": "30 days",
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const EXPIRY_DAYS: Record<Expiry, number | null> = { never: null, "1d": 1, "7d": 7, "30d": 30 };
+
+function expiryTimestamp(expiry: Expiry): number | null {
+  const days = EXPIRY_DAYS[expiry];
+  return days === null ? null : Date.now() + days * DAY;
+}
+
+function parsePositiveDecimal(text: string): Decimal | null {
+  const normalized = text.trim().replace(",", ".");
+  if (!/^\d+(\.\d+)?$/.test(normalized)) {
+    return null;
+  }
+  const value = Decimal.parse(normalized);
+  return value.isZero() ? null : value;
+}
+
+function describeExpiry(entry: { expiresAt: number | null }): string {
+  if (entry.expiresAt === null) {
+    return "No expiry";
+  }
+  return `${isExpired(entry) ? "Expired" : "Expires"} ${new Date(entry.expiresAt).toLocaleString()}`;
+}
+
+const ManualRates: React.FC = () => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+
+  const [overrides, setOverrides] = useState<RateOverride[]>([]);
+  const [customCurrencies, setCustomCurrencies] = useState<CustomCurrency[]>([]);
+
+  // New override
+  const [base, setBase] = useState<string>("EUR");
+  const [quote, setQuote] = useState<string>("USD");
+  const [rate, setRate] = useState<string>("");
+  const [note, setNote] = useState<string>("");
+  const [overrideExpiry, setOverrideExpiry] = useState<Expiry>("never");
+  const [overrideError, setOverrideError] = useState<string | null>(null);
+
+  // New custom currency
+  const [code, setCode] = useState<string>("");
+  const [name, setName] = useState<string>("");
+  const [symbol, setSymbol] = useState<string>("");
+  const [anchor, setAnchor] = useState<string>("USD");
+  const [value, setValue] = useState<string>("");
+  const [customExpiry, setCustomExpiry] = useState<Expiry>("never");
+  const [customError, setCustomError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setOverrides([...(await rateOverrideService.getOverrides())]);
+    setCustomCurrencies([...(await rateOverrideService.getCustomCurrencies())]);
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+    return rateOverrideService.subscribe(loadEntries);
+  }, [loadEntries]);
+
+  const handleCreateOverride = async () => {
+    const parsed = parsePositiveDecimal(rate);
+    if (!parsed) {
+      setOverrideError("Enter a positive rate");
+      return;
+    }
+    if (base === quote) {
+      setOverrideError("Pick two different currencies");
+      return;
+    }
+
+    setOverrideError(null);
+    await rateOverrideService.setOverride(base, quote, parsed, expiryTimestamp(overrideExpiry), note.trim() || undefined);
+    setRate("");
+    setNote("");
+  };
+
+  const handleCreateCustom = async () => {
+    const normalizedCode = code.trim().toUpperCase();
+    const parsed = parsePositiveDecimal(value);
+    if (!isCurrencyCode(normalizedCode)) {
+      setCustomError("Use 3 to 8 letters or digits for the code");
+      return;
+    }
+    if (!parsed) {
+      setCustomError("Enter a positive value");
+      return;
+    }
+
+    try {
+      await rateOverrideService.saveCustomCurrency({
+        code: normalizedCode,
+        name: name.trim() || normalizedCode,
+        symbol: symbol.trim() || normalizedCode,
+        anchor,
+        value: parsed.toString(),
+        expiresAt: expiryTimestamp(customExpiry),
+      });
+      setCustomError(null);
+      setCode("");
+      setName("");
+      setSymbol("");
+      setValue("");
+    } catch (error) {
+      setCustomError(error instanceof Error ? error.message : "Could not save the currency");
+    }
+  };
+
+  const renderExpiryChips = (selected: Expiry, onSelect: (expiry: Expiry) => void) => (
+    <View style={styles.chipRow}>
+      {(Object.keys(EXPIRY_LABELS) as Expiry[]).map(expiry => (
+        <TouchableOpacity key={expiry} style={[styles.chip, expiry === selected && styles.chipActive]} onPress={() => onSelect(expiry)}>
+          <Text style={[styles.chipText, expiry === selected && styles.chipTextActive]}>{EXPIRY_LABELS[expiry]}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView style={[styles.container, isDark && styles.darkContainer]} keyboardShouldPersistTaps="handled">
+      {/* Pair Overrides */}
+      <View style={[styles.section, isDark && styles.darkSection]}>
+        <Text style={[styles.sectionTitle, isDark && styles.darkText]}>Manual Rate</Text>
+        <Text style={styles.hintText}>Used instead of the live rate for this pair, in both directions.</Text>
+        <View style={styles.pairRow}>
+          <View style={styles.pickerContainer}>
+            <CurrencyField value={base} onChange={setBase} currencies={CURRENCY_CODES} />
+          </View>
+          <Text style={[styles.pairSeparator, isDark && styles.darkText]}>→</Text>
+          <View style={styles.pickerContainer}>
+            <CurrencyField value={quote} onChange={setQuote} currencies={CURRENCY_CODES} />
+          </View>
+        </View>
+        <TextInput
+          style={styles.textInput}
+          value={rate}
+          onChangeText={setRate}
+          placeholder={`1 ${base} = ? ${quote}`}
+          keyboardType="decimal-pad"
+        />
+        <TextInput style={styles.textInput} value={note} onChangeText={setNote} placeholder="Note, e.g. Airport kiosk" />
+        {renderExpiryChips(overrideExpiry, setOverrideExpiry)}
+        {overrideError && <Text style={styles.errorText}>{overrideError}</Text>}
+        <TouchableOpacity style={styles.primaryButton} onPress={handleCreateOverride}>
+          <Text style={styles.primaryButtonText}>Save Rate</Text>
+        </TouchableOpacity>
+
+        {overrides.map(override => (
+          <View key={override.id} style={styles.entryItem}>
+            <View style={styles.entryInfo}>
+              <Text style={[styles.entryText, isDark && styles.darkText, isExpired(override) && styles.expiredText]}>
+                1 {override.base} = {override.rate} {override.quote}
+              </Text>
+              <Text style={styles.metaText}>
+                {override.note ? `${override.note} · ` : ""}
+                {describeExpiry(override)}
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.smallButton} onPress={() => rateOverrideService.removeOverride(override.id)}>
+              <Text style={styles.smallButtonText}>Use live rate</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+
+      {/* Custom Currencies */}
+      <View style={[styles.section, styles.lastSection, isDark && styles.darkSection]}>
+        <Text style={[styles.sectionTitle, isDark && styles.darkText]}>Custom Currency</Text>
+        <Text style={styles.hintText}>A unit of your own, valued against a real currency.</Text>
+        <View style={styles.pairRow}>
+          <TextInput
+            style={[styles.textInput, styles.flexInput]}
+            value={code}
+            onChangeText={setCode}
+            placeholder="Code, e.g. GOLD"
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+          <TextInput style={[styles.textInput, styles.symbolInput]} value={symbol} onChangeText={setSymbol} placeholder="Symbol" />
+        </View>
+        <TextInput style={styles.textInput} value={name} onChangeText={setName} placeholder="Name, e.g. Game gold" />
+        <View style={styles.pairRow}>
+          <TextInput
+            style={[styles.textInput, styles.flexInput]}
+            value={value}
+            onChangeText={setValue}
+            placeholder={`1 unit = ? ${anchor}`}
+            keyboardType="decimal-pad"
+          />
+          <View style={styles.pickerContainer}>
+            <CurrencyField value={anchor} onChange={setAnchor} currencies={CURRENCY_CODES} />
+          </View>
+        </View>
+        {renderExpiryChips(customExpiry, setCustomExpiry)}
+        {customError && <Text style={styles.errorText}>{customError}</Text>}
+        <TouchableOpacity style={styles.primaryButton} onPress={handleCreateCustom}>
+          <Text style={styles.primaryButtonText}>Save Currency</Text>
+        </TouchableOpacity>
+
+        {customCurrencies.map(currency => (
+          <View key={currency.code} style={styles.entryItem}>
+            <View style={styles.entryInfo}>
+              <Text style={[styles.entryText, isDark && styles.darkText, isExpired(currency) && styles.expiredText]}>
+                {currency.symbol} {currency.name} ({currency.code})
+              </Text>
+              <Text style={styles.metaText}>
+                1 {currency.code} = {currency.value} {currency.anchor} · {describeExpiry(currency)}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.smallButton, styles.deleteButton]}
+              onPress={() => rateOverrideService.removeCustomCurrency(currency.code)}>
+              <Text style={styles.smallButtonText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  darkContainer: {
+    backgroundColor: "#1a1a1a",
+  },
+  section: {
+    backgroundColor: "white",
+    margin: 20,
+    marginBottom: 0,
+    padding: 15,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  lastSection: {
+    marginBottom: 20,
+  },
+  darkSection: {
+    backgroundColor: "#2d2d2d",
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 5,
+  },
+  darkText: {
+    color: "#fff",
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#666",
+    marginBottom: 10,
+  },
+  pairRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  pairSeparator: {
+    fontSize: 20,
+    marginHorizontal: 8,
+    color: "#333",
+  },
+  pickerContainer: {
+    flex: 1,
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    backgroundColor: "#f8f9fa",
+  },
+  textInput: {
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: "#f8f9fa",
+    marginTop: 10,
+  },
+  flexInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  symbolInput: {
+    width: 90,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginRight: 8,
+    marginBottom: 6,
+    backgroundColor: "#e1e5e9",
+  },
+  chipActive: {
+    backgroundColor: "#007AFF",
+  },
+  chipText: {
+    color: "#333",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: "white",
+  },
+  errorText: {
+    color: "#c62828",
+    fontSize: 14,
+    marginTop: 8,
+  },
+  primaryButton: {
+    backgroundColor: "#007AFF",
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 12,
+    marginBottom: 5,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+  entryItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryText: {
+    fontSize: 15,
+    color: "#333",
+  },
+  expiredText: {
+    color: "#999",
+    textDecorationLine: "line-through",
+  },
+  metaText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+  smallButton: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  deleteButton: {
+    backgroundColor: "#f44336",
+  },
+  smallButtonText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+});
+
+export default ManualRates;
@@ -0,0 +1,328 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Keyboard,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  useColorScheme,
+} from "react-native";
+import { CURRENCY_CODES } from "../constants/currencies";
+import { useExchangeRates } from "../hooks/use-exchange-rates";
+import currencyService from "../services/currencyService";
+import { Decimal } from "../services/decimal";
+import { sanitizeExpressionInput, tryEvaluateExpression } from "../services/expression";
+import { getDecimalSeparator, toAmountInput } from "../services/formatting";
+import preferencesService, { CurrencyPair, DEFAULT_PREFERENCES } from "../services/preferencesService";
+import rateOverrideService from "../services/rateOverrideService";
+import { CurrencyField } from "./CurrencyPicker";
+
+type PairSide = "from" | "to";
+
+// Two linked amount fields: typing in either one converts into the other, so the view answers
+// both "what is 500 EUR in USD" and "how many USD do I need to end up with 500 EUR"
+const PairConverter: React.FC = () => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+
+  const [preferences, setPreferences] = useState(preferencesService.snapshot);
+  const [customCodes, setCustomCodes] = useState<string[]>(rateOverrideService.getActiveCustomCodes());
+  // A custom currency in the saved pair may have expired or been deleted since
+  const from = currencyService.resolveCode(preferences.pairCurrencies.from) ?? DEFAULT_PREFERENCES.pairCurrencies.from;
+  const to = currencyService.resolveCode(preferences.pairCurrencies.to) ?? DEFAULT_PREFERENCES.pairCurrencies.to;
+  // Only the field typed in last holds user input; the other one is always derived from it
+  const [editedSide, setEditedSide] = useState<PairSide>("from");
+  const [input, setInput] = useState<string>("");
+  const { data: currencyData, loading, error, refresh } = useExchangeRates(from);
+
+  useEffect(() => {
+    preferencesService.load().then(setPreferences);
+    return preferencesService.subscribe(setPreferences);
+  }, []);
+
+  useEffect(() => {
+    rateOverrideService.load();
+    return rateOverrideService.subscribe(() => setCustomCodes(rateOverrideService.getActiveCustomCodes()));
+  }, []);
+
+  const currencyOptions = useMemo(() => [...CURRENCY_CODES, ...customCodes], [customCodes]);
+
+  const decimalSeparator = getDecimalSeparator(currencyService.getLocale());
+  const editedCurrency = editedSide === "from" ? from : to;
+  const otherCurrency = editedSide === "from" ? to : from;
+
+  const inputAmount = useMemo(
+    () => tryEvaluateExpression(input, { decimalSeparator, allowIncomplete: true }),
+    [input, decimalSeparator]
+  );
+  const convertedAmount =
+    inputAmount && currencyData ? currencyService.convertCurrency(inputAmount, editedCurrency, otherCurrency, currencyData) : null;
+  const crossRate = currencyData ? currencyService.getCrossRate(from, to, currencyData) : null;
+  const inverseRate = currencyData ? currencyService.getCrossRate(to, from, currencyData) : null;
+  const isUnavailable = currencyData !== null && crossRate === null;
+
+  // Plain digits in the user's decimal separator, so the derived amount can be edited in turn
+  const toInputText = (value: Decimal, currency: string): string =>
+    toAmountInput(currencyService.roundMoney(value, currency), decimalSeparator);
+
+  const derivedText = convertedAmount ? toInputText(convertedAmount, otherCurrency) : "";
+  const fromText = editedSide === "from" ? input : derivedText;
+  const toText = editedSide === "to" ? input : derivedText;
+
+  const handleChange = (side: PairSide, text: string) => {
+    setEditedSide(side);
+    setInput(sanitizeExpressionInput(text));
+  };
+
+  const setPair = (pair: CurrencyPair) => {
+    preferencesService.update({ pairCurrencies: pair });
+  };
+
+  // The typed amount moves with its currency, so swapping never changes what was entered
+  const handleSwap = () => {
+    setEditedSide(editedSide === "from" ? "to" : "from");
+    setPair({ from: to, to: from });
+  };
+
+  const isPinned = preferences.startScreen === "pair";
+  const togglePinned = () => {
+    preferencesService.update({ startScreen: isPinned ? "list" : "pair" });
+  };
+
+  const renderField = (side: PairSide, currency: string, text: string) => (
+    <View style={styles.field}>
+      <View style={styles.pickerContainer}>
+        <CurrencyField
+          value={currency}
+          onChange={picked => setPair(side === "from" ? { from: picked, to } : { from, to: picked })}
+          currencies={currencyOptions}
+          title={side === "from" ? "You Send" : "You Get"}
+        />
+      </View>
+      <TextInput
+        style={[styles.amountInput, isDark && styles.darkAmountInput, side === editedSide && styles.editedAmountInput]}
+        value={text}
+        onChangeText={value => handleChange(side, value)}
+        placeholder={isUnavailable ? "unavailable" : "0.00"}
+        placeholderTextColor="#999"
+        keyboardType={Platform.OS === "ios" ? "numbers-and-punctuation" : "default"}
+        returnKeyType="done"
+        onSubmitEditing={Keyboard.dismiss}
+      />
+    </View>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, isDark && styles.darkContainer]}
+      keyboardVerticalOffset={Platform.OS === "ios" ? 0 : 20}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Pair</Text>
+      </View>
+
+      <ScrollView keyboardShouldPersistTaps="handled">
+        <View style={[styles.section, isDark && styles.darkSection]}>
+          <Text style={[styles.label, isDark && styles.darkLabel]}>You send</Text>
+          {renderField("from", from, fromText)}
+
+          <TouchableOpacity style={styles.swapButton} onPress={handleSwap} accessibilityLabel="Swap currencies">
+            <Text style={styles.swapButtonText}>⇅</Text>
+          </TouchableOpacity>
+
+          <Text style={[styles.label, isDark && styles.darkLabel]}>You get</Text>
+          {renderField("to", to, toText)}
+
+          {loading && <ActivityIndicator style={styles.loading} color="#007AFF" />}
+          {crossRate && (
+            <View style={styles.rates}>
+              <Text style={styles.rateText}>
+                1 {from} = {currencyService.formatRate(crossRate.rate, to)}
+                {crossRate.manual ? " ✎" : ""}
+              </Text>
+              {inverseRate && (
+                <Text style={styles.rateText}>
+                  1 {to} = {currencyService.formatRate(inverseRate.rate, from)}
+                </Text>
+              )}
+            </View>
+          )}
+          {isUnavailable && (
+            <Text style={styles.unavailableText}>
+              No rate between {from} and {to} is available right now.
+            </Text>
+          )}
+        </View>
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={refresh}>
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <TouchableOpacity style={[styles.pinButton, isPinned && styles.activePinButton]} onPress={togglePinned}>
+          <Text style={[styles.pinButtonText, isPinned && styles.activePinButtonText]}>
+            📌 {isPinned ? "Opens on this screen · unpin" : "Open the app on this screen"}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  darkContainer: {
+    backgroundColor: "#1a1a1a",
+  },
+  header: {
+    backgroundColor: "#007AFF",
+    paddingTop: 60,
+    paddingBottom: 30,
+    paddingHorizontal: 20,
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: "white",
+  },
+  section: {
+    backgroundColor: "white",
+    margin: 20,
+    padding: 20,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  darkSection: {
+    backgroundColor: "#2d2d2d",
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 8,
+  },
+  darkLabel: {
+    color: "#fff",
+  },
+  field: {
+    marginBottom: 10,
+  },
+  pickerContainer: {
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    backgroundColor: "#f8f9fa",
+    marginBottom: 8,
+  },
+  amountInput: {
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    padding: 15,
+    fontSize: 24,
+    fontWeight: "600",
+    backgroundColor: "#f8f9fa",
+  },
+  darkAmountInput: {
+    backgroundColor: "#1a1a1a",
+    color: "#fff",
+  },
+  editedAmountInput: {
+    borderColor: "#007AFF",
+  },
+  swapButton: {
+    alignSelf: "center",
+    backgroundColor: "#007AFF",
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    marginVertical: 6,
+  },
+  swapButtonText: {
+    color: "white",
+    fontSize: 22,
+    fontWeight: "bold",
+  },
+  loading: {
+    marginTop: 10,
+  },
+  rates: {
+    marginTop: 10,
+  },
+  rateText: {
+    fontSize: 13,
+    color: "#666",
+    textAlign: "center",
+  },
+  unavailableText: {
+    marginTop: 10,
+    fontSize: 13,
+    color: "#999",
+    fontStyle: "italic",
+    textAlign: "center",
+  },
+  errorContainer: {
+    backgroundColor: "#ffebee",
+    marginHorizontal: 20,
+    padding: 15,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: "#f44336",
+    alignItems: "center",
+  },
+  errorText: {
+    color: "#c62828",
+    fontSize: 14,
+    marginBottom: 10,
+    textAlign: "center",
+  },
+  retryButton: {
+    backgroundColor: "#f44336",
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  retryButtonText: {
+    color: "white",
+    fontWeight: "600",
+  },
+  pinButton: {
+    alignSelf: "center",
+    backgroundColor: "#e1e5e9",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    marginVertical: 20,
+  },
+  activePinButton: {
+    backgroundColor: "#007AFF",
+  },
+  pinButtonText: {
+    fontSize: 14,
+    color: "#333",
+  },
+  activePinButtonText: {
+    color: "white",
+    fontWeight: "600",
+  },
+});
+
+export default PairConverter;
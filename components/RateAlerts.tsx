@@ -0,0 +1,329 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View, useColorScheme } from "react-native";
+import { CURRENCY_CODES } from "../constants/currencies";
+import alertService, { AlertCondition, AlertTrigger, RateAlert, describeCondition } from "../services/alertService";
+import { requestNotificationPermission, runAlertCheck, syncAlertTaskRegistration } from "../services/alertTask";
+import { CurrencyField } from "./CurrencyPicker";
+
+type ConditionType = AlertCondition["type"];
+
+const CONDITION_LABELS: Record<ConditionType, string> = {
+  above: "Goes above",
+  below: "Goes below",
+  change: "Moves by %",
+};
+
+const RateAlerts: React.FC = () => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+
+  const [alerts, setAlerts] = useState<RateAlert[]>([]);
+  const [log, setLog] = useState<AlertTrigger[]>([]);
+  const [base, setBase] = useState<string>("EUR");
+  const [quote, setQuote] = useState<string>("USD");
+  const [conditionType, setConditionType] = useState<ConditionType>("above");
+  const [value, setValue] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState<boolean>(false);
+
+  const loadAlerts = useCallback(async () => {
+    setAlerts(await alertService.getAlerts());
+    setLog(await alertService.getTriggerLog());
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  const handleCreate = async () => {
+    const numericValue = parseFloat(value.replace(",", "."));
+    if (!Number.isFinite(numericValue) || numericValue <= 0) {
+      setError("Enter a positive number");
+      return;
+    }
+    if (base === quote) {
+      setError("Pick two different currencies");
+      return;
+    }
+
+    const condition: AlertCondition =
+      conditionType === "change" ? { type: "change", percent: numericValue } : { type: conditionType, threshold: numericValue };
+
+    setError(null);
+    await requestNotificationPermission();
+    await alertService.createAlert(base, quote, condition);
+    await syncAlertTaskRegistration();
+    setValue("");
+    await loadAlerts();
+  };
+
+  const handleTogglePaused = async (alert: RateAlert) => {
+    await alertService.setAlertPaused(alert.id, !alert.paused);
+    await syncAlertTaskRegistration();
+    await loadAlerts();
+  };
+
+  const handleDelete = async (alert: RateAlert) => {
+    await alertService.deleteAlert(alert.id);
+    await syncAlertTaskRegistration();
+    await loadAlerts();
+  };
+
+  const handleCheckNow = async () => {
+    setChecking(true);
+    try {
+      await runAlertCheck();
+      await loadAlerts();
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleClearLog = async () => {
+    await alertService.clearTriggerLog();
+    await loadAlerts();
+  };
+
+  return (
+    <ScrollView style={[styles.container, isDark && styles.darkContainer]} keyboardShouldPersistTaps="handled">
+      {/* New Alert */}
+      <View style={[styles.section, isDark && styles.darkSection]}>
+        <Text style={[styles.sectionTitle, isDark && styles.darkText]}>New Alert</Text>
+        <View style={styles.pairRow}>
+          <View style={styles.pickerContainer}>
+            <CurrencyField value={base} onChange={setBase} currencies={CURRENCY_CODES} />
+          </View>
+          <Text style={[styles.pairSeparator, isDark && styles.darkText]}>/</Text>
+          <View style={styles.pickerContainer}>
+            <CurrencyField value={quote} onChange={setQuote} currencies={CURRENCY_CODES} />
+          </View>
+        </View>
+
+        <View style={styles.conditionRow}>
+          {(Object.keys(CONDITION_LABELS) as ConditionType[]).map(type => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.conditionButton, type === conditionType && styles.conditionButtonActive]}
+              onPress={() => setConditionType(type)}>
+              <Text style={[styles.conditionButtonText, type === conditionType && styles.conditionButtonTextActive]}>
+                {CONDITION_LABELS[type]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TextInput
+          style={styles.valueInput}
+          value={value}
+          onChangeText={setValue}
+          placeholder={conditionType === "change" ? "2" : "38.00"}
+          keyboardType="decimal-pad"
+        />
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <TouchableOpacity style={styles.primaryButton} onPress={handleCreate}>
+          <Text style={styles.primaryButtonText}>Create Alert</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Active Alerts */}
+      <View style={[styles.section, isDark && styles.darkSection]}>
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, isDark && styles.darkText]}>Alerts</Text>
+          <TouchableOpacity style={styles.smallButton} onPress={handleCheckNow} disabled={checking}>
+            <Text style={styles.smallButtonText}>{checking ? "Checking..." : "Check now"}</Text>
+          </TouchableOpacity>
+        </View>
+        {alerts.length === 0 && <Text style={styles.emptyText}>No alerts yet.</Text>}
+        {alerts.map(alert => (
+          <View key={alert.id} style={styles.alertItem}>
+            <View style={styles.alertInfo}>
+              <Text style={[styles.alertText, isDark && styles.darkText, alert.paused && styles.pausedText]}>
+                {describeCondition(alert)}
+              </Text>
+              {alert.lastRate !== undefined && <Text style={styles.metaText}>Last rate {alert.lastRate.toFixed(4)}</Text>}
+            </View>
+            <TouchableOpacity style={styles.smallButton} onPress={() => handleTogglePaused(alert)}>
+              <Text style={styles.smallButtonText}>{alert.paused ? "Resume" : "Pause"}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.smallButton, styles.deleteButton]} onPress={() => handleDelete(alert)}>
+              <Text style={styles.smallButtonText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+
+      {/* Trigger Log */}
+      <View style={[styles.section, isDark && styles.darkSection]}>
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, isDark && styles.darkText]}>Triggered</Text>
+          {log.length > 0 && (
+            <TouchableOpacity style={styles.smallButton} onPress={handleClearLog}>
+              <Text style={styles.smallButtonText}>Clear</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {log.length === 0 && <Text style={styles.emptyText}>Nothing has triggered yet.</Text>}
+        {log.map(trigger => (
+          <View key={trigger.id} style={styles.logItem}>
+            <Text style={[styles.alertText, isDark && styles.darkText]}>{trigger.message}</Text>
+            <Text style={styles.metaText}>{new Date(trigger.triggeredAt).toLocaleString()}</Text>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  darkContainer: {
+    backgroundColor: "#1a1a1a",
+  },
+  section: {
+    backgroundColor: "white",
+    margin: 20,
+    marginBottom: 0,
+    padding: 15,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  darkSection: {
+    backgroundColor: "#2d2d2d",
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 10,
+  },
+  darkText: {
+    color: "#fff",
+  },
+  pairRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  pairSeparator: {
+    fontSize: 20,
+    marginHorizontal: 8,
+    color: "#333",
+  },
+  pickerContainer: {
+    flex: 1,
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    backgroundColor: "#f8f9fa",
+  },
+  conditionRow: {
+    flexDirection: "row",
+    marginVertical: 12,
+  },
+  conditionButton: {
+    flex: 1,
+    paddingVertical: 8,
+    marginRight: 6,
+    borderRadius: 6,
+    backgroundColor: "#e1e5e9",
+    alignItems: "center",
+  },
+  conditionButtonActive: {
+    backgroundColor: "#007AFF",
+  },
+  conditionButtonText: {
+    color: "#333",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  conditionButtonTextActive: {
+    color: "white",
+  },
+  valueInput: {
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 18,
+    backgroundColor: "#f8f9fa",
+  },
+  errorText: {
+    color: "#c62828",
+    fontSize: 14,
+    marginTop: 8,
+  },
+  primaryButton: {
+    backgroundColor: "#007AFF",
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+  smallButton: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  deleteButton: {
+    backgroundColor: "#f44336",
+  },
+  smallButtonText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+  },
+  alertItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  alertInfo: {
+    flex: 1,
+  },
+  alertText: {
+    fontSize: 15,
+    color: "#333",
+  },
+  pausedText: {
+    color: "#999",
+    textDecorationLine: "line-through",
+  },
+  metaText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+  logItem: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+});
+
+export default RateAlerts;
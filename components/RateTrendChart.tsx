@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from "react";
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View, useColorScheme } from "react-native";
+import currencyService from "../services/currencyService";
+import { isFixtureMode } from "../services/fixtureMode";
+import rateHistoryService, { HISTORY_RANGE_DAYS, HistoryRange, RatePoint } from "../services/rateHistoryService";
+
+interface RateTrendChartProps {
+  base: string;
+  quote: string;
+}
+
+const RANGES = Object.keys(HISTORY_RANGE_DAYS) as HistoryRange[];
+const CHART_HEIGHT = 200;
+
+const RateTrendChart: React.FC<RateTrendChartProps> = ({ base, quote }) => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+
+  const [range, setRange] = useState<HistoryRange>("30d");
+  const [series, setSeries] = useState<RatePoint[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    // A slow backfill for a previous range or pair must not overwrite the one now selected
+    let cancelled = false;
+    const loadSeries = async () => {
+      setLoading(true);
+      try {
+        const points = await rateHistoryService.getSeries(base, quote, range);
+        if (!cancelled) {
+          setSeries(points);
+        }
+      } catch (error) {
+        console.error("Error loading rate history:", error);
+        if (!cancelled) {
+          setSeries([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadSeries();
+    return () => {
+      cancelled = true;
+    };
+  }, [base, quote, range]);
+
+  const rates = series.map(point => point.rate);
+  const min = Math.min(...rates);
+  const max = Math.max(...rates);
+  const spread = max - min || 1;
+  const first = series[0];
+  const last = series[series.length - 1];
+  const change = first && last ? ((last.rate - first.rate) / first.rate) * 100 : 0;
+
+  return (
+    <View style={[styles.container, isDark && styles.darkContainer]}>
+      <Text style={[styles.pair, isDark && styles.darkText]}>
+        {base} → {quote}
+      </Text>
+      {isFixtureMode() && <Text style={styles.demoText}>Demo data · not live</Text>}
+
+      <View style={styles.rangeSelector}>
+        {RANGES.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.rangeButton, option === range && styles.rangeButtonActive]}
+            onPress={() => setRange(option)}>
+            <Text style={[styles.rangeButtonText, option === range && styles.rangeButtonTextActive]}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading && (
+        <View style={styles.placeholder}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      )}
+
+      {!loading && series.length < 2 && (
+        <View style={styles.placeholder}>
+          <Text style={styles.emptyText}>Not enough history for this pair yet.</Text>
+        </View>
+      )}
+
+      {!loading && series.length >= 2 && (
+        <>
+          <View style={[styles.chart, isDark && styles.darkChart]}>
+            {series.map(point => (
+              <View
+                key={point.date}
+                style={[
+                  styles.bar,
+                  { height: 8 + ((point.rate - min) / spread) * (CHART_HEIGHT - 8) },
+                  change < 0 && styles.barDown,
+                ]}
+              />
+            ))}
+          </View>
+          <View style={styles.axis}>
+            <Text style={styles.axisText}>{first.date}</Text>
+            <Text style={styles.axisText}>{last.date}</Text>
+          </View>
+
+          <View style={styles.stats}>
+            <View style={styles.stat}>
+              <Text style={styles.statLabel}>Latest</Text>
+              <Text style={[styles.statValue, isDark && styles.darkText]}>{currencyService.formatRate(last.rate, quote)}</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statLabel}>Low</Text>
+              <Text style={[styles.statValue, isDark && styles.darkText]}>{currencyService.formatRate(min, quote)}</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statLabel}>High</Text>
+              <Text style={[styles.statValue, isDark && styles.darkText]}>{currencyService.formatRate(max, quote)}</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statLabel}>Change</Text>
+              <Text style={[styles.statValue, change < 0 ? styles.negative : styles.positive]}>
+                {change >= 0 ? "+" : ""}
+                {change.toFixed(2)}%
+              </Text>
+            </View>
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+    padding: 20,
+  },
+  darkContainer: {
+    backgroundColor: "#1a1a1a",
+  },
+  pair: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#333",
+    marginBottom: 15,
+  },
+  demoText: {
+    color: "#673ab7",
+    fontWeight: "600",
+    marginTop: -10,
+    marginBottom: 15,
+  },
+  darkText: {
+    color: "#fff",
+  },
+  rangeSelector: {
+    flexDirection: "row",
+    marginBottom: 20,
+  },
+  rangeButton: {
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    borderRadius: 6,
+    marginRight: 10,
+    backgroundColor: "#e1e5e9",
+  },
+  rangeButtonActive: {
+    backgroundColor: "#007AFF",
+  },
+  rangeButtonText: {
+    color: "#333",
+    fontWeight: "600",
+  },
+  rangeButtonTextActive: {
+    color: "white",
+  },
+  placeholder: {
+    height: CHART_HEIGHT,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#666",
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: "row",
+    alignItems: "flex-end",
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 10,
+    overflow: "hidden",
+  },
+  darkChart: {
+    backgroundColor: "#2d2d2d",
+  },
+  bar: {
+    flex: 1,
+    marginHorizontal: 0.5,
+    backgroundColor: "#28a745",
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  barDown: {
+    backgroundColor: "#f44336",
+  },
+  axis: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 6,
+  },
+  axisText: {
+    fontSize: 12,
+    color: "#666",
+  },
+  stats: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 20,
+  },
+  stat: {
+    alignItems: "center",
+  },
+  statLabel: {
+    fontSize: 12,
+    color: "#666",
+    marginBottom: 4,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  positive: {
+    color: "#28a745",
+  },
+  negative: {
+    color: "#f44336",
+  },
+});
+
+export default RateTrendChart;
@@ -0,0 +1,353 @@
+import { router } from "expo-router";
+import React, { useEffect, useState } from "react";
+import { Alert, Platform, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View, useColorScheme } from "react-native";
+import { CURRENCY_CODES } from "../constants/currencies";
+import appStore from "../services/appStore";
+import currencyService from "../services/currencyService";
+import { getDeviceLocale } from "../services/formatting";
+import preferencesService, { Preferences, PROVIDER_OPTIONS, ROUNDING_MODES } from "../services/preferencesService";
+import { CurrencyField } from "./CurrencyPicker";
+
+const CACHE_DURATION_OPTIONS = [1, 6, 12, 24, 72];
+const DISPLAY_PRECISION_OPTIONS: (number | null)[] = [null, 0, 2, 4, 6];
+
+const PROVIDER_LABELS: Record<Preferences["provider"], string> = {
+  auto: "Automatic",
+  "exchangerate-api": "ExchangeRate-API",
+  frankfurter: "Frankfurter",
+  ecb: "ECB",
+  custom: "Custom URL",
+};
+
+const ROUNDING_MODE_LABELS: Record<Preferences["roundingMode"], string> = {
+  "half-even": "Banker's",
+  "half-up": "Half up",
+  truncate: "Truncate",
+};
+
+interface ChipRowProps<T> {
+  options: T[];
+  selected: T;
+  label: (option: T) => string;
+  onSelect: (option: T) => void;
+}
+
+function ChipRow<T>({ options, selected, label, onSelect }: ChipRowProps<T>) {
+  return (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={label(option)}
+          style={[styles.chip, option === selected && styles.chipActive]}
+          onPress={() => onSelect(option)}>
+          <Text style={[styles.chipText, option === selected && styles.chipTextActive]}>{label(option)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const Settings: React.FC = () => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+
+  const [preferences, setPreferences] = useState<Preferences>(preferencesService.snapshot);
+  const [customUrl, setCustomUrl] = useState<string>("");
+  const [locale, setLocale] = useState<string>("");
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    preferencesService.get().then(loaded => {
+      setCustomUrl(loaded.customProviderUrl ?? "");
+      setLocale(loaded.locale ?? "");
+    });
+    return preferencesService.subscribe(setPreferences);
+  }, []);
+
+  const update = async (changes: Partial<Preferences>) => {
+    setNotice(null);
+    await preferencesService.update(changes);
+  };
+
+  const handleSaveCustomUrl = async () => {
+    const url = customUrl.trim();
+    if (url && !/^https?:\/\//.test(url)) {
+      setNotice("The provider URL must start with http:// or https://");
+      return;
+    }
+    await update({ customProviderUrl: url || null });
+    setNotice(url ? "Custom provider saved" : "Custom provider removed");
+  };
+
+  const handleSaveLocale = async () => {
+    const tag = locale.trim();
+    const saved = await preferencesService.update({ locale: tag || null });
+    if (tag && saved.locale !== tag) {
+      setNotice(`"${tag}" is not a locale this device can format`);
+      return;
+    }
+    setNotice(tag ? `Formatting numbers as ${tag}` : "Following the device locale");
+  };
+
+  const handleClearCache = (includeHistory: boolean) => {
+    const clear = async () => {
+      await currencyService.clearCachedRates(includeHistory);
+      await appStore.clearRates();
+      setNotice(includeHistory ? "Cached rates and history cleared" : "Cached rates cleared");
+    };
+    // Alert buttons are not supported on web
+    if (Platform.OS === "web") {
+      clear();
+      return;
+    }
+
+    const message = includeHistory
+      ? "Cached rates and the recorded rate history will be deleted."
+      : "Cached rates will be deleted and fetched again on next use.";
+    Alert.alert("Clear cached data?", message, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Clear", style: "destructive", onPress: clear },
+    ]);
+  };
+
+  const handleReset = async () => {
+    const defaults = await preferencesService.reset();
+    setCustomUrl(defaults.customProviderUrl ?? "");
+    setLocale(defaults.locale ?? "");
+    setNotice("Settings restored to defaults");
+  };
+
+  return (
+    <ScrollView style={[styles.container, isDark && styles.darkContainer]} keyboardShouldPersistTaps="handled">
+      {notice && <Text style={styles.noticeText}>{notice}</Text>}
+
+      {/* Rates */}
+      <View style={[styles.section, isDark && styles.darkSection]}>
+        <Text style={[styles.sectionTitle, isDark && styles.darkText]}>Rates</Text>
+
+        <Text style={styles.label}>Keep cached rates for</Text>
+        <ChipRow
+          options={CACHE_DURATION_OPTIONS}
+          selected={preferences.cacheDurationHours}
+          label={hours => (hours < 24 ? `${hours} h` : `${hours / 24} d`)}
+          onSelect={hours => update({ cacheDurationHours: hours })}
+        />
+
+        <Text style={styles.label}>Provider</Text>
+        <ChipRow
+          options={PROVIDER_OPTIONS}
+          selected={preferences.provider}
+          label={provider => PROVIDER_LABELS[provider]}
+          onSelect={provider => update({ provider })}
+        />
+        <Text style={styles.hintText}>Other providers are still tried when the preferred one fails.</Text>
+
+        <TouchableOpacity style={styles.linkButton} onPress={() => router.push("/manual-rates")}>
+          <Text style={styles.linkButtonText}>Manual rates and custom currencies ›</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.linkButton} onPress={() => router.push("/fee-profiles")}>
+          <Text style={styles.linkButtonText}>Payment methods and fees ›</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.linkButton} onPress={() => router.push("/watchlists")}>
+          <Text style={styles.linkButtonText}>Watchlists ›</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.label}>Custom provider URL</Text>
+        <TextInput
+          style={styles.textInput}
+          value={customUrl}
+          onChangeText={setCustomUrl}
+          onSubmitEditing={handleSaveCustomUrl}
+          onBlur={handleSaveCustomUrl}
+          placeholder="https://example.com/rates/{base}"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+      </View>
+
+      {/* Display */}
+      <View style={[styles.section, isDark && styles.darkSection]}>
+        <Text style={[styles.sectionTitle, isDark && styles.darkText]}>Display</Text>
+
+        <Text style={styles.label}>Default base currency</Text>
+        <View style={styles.pickerContainer}>
+          <CurrencyField
+            value={preferences.defaultBaseCurrency}
+            onChange={currency => update({ defaultBaseCurrency: currency })}
+            currencies={CURRENCY_CODES}
+            title="Default Base Currency"
+          />
+        </View>
+
+        <Text style={styles.label}>Decimal places</Text>
+        <ChipRow
+          options={DISPLAY_PRECISION_OPTIONS}
+          selected={preferences.displayPrecision}
+          label={precision => (precision === null ? "Currency default" : String(precision))}
+          onSelect={precision => update({ displayPrecision: precision })}
+        />
+
+        <Text style={styles.label}>Rounding</Text>
+        <ChipRow
+          options={ROUNDING_MODES}
+          selected={preferences.roundingMode}
+          label={mode => ROUNDING_MODE_LABELS[mode]}
+          onSelect={mode => update({ roundingMode: mode })}
+        />
+
+        <Text style={styles.label}>Number format locale</Text>
+        <TextInput
+          style={styles.textInput}
+          value={locale}
+          onChangeText={setLocale}
+          onSubmitEditing={handleSaveLocale}
+          onBlur={handleSaveLocale}
+          placeholder={`Device default (${getDeviceLocale()})`}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <Text style={styles.hintText}>Example: {currencyService.formatCurrency(1234.5, preferences.defaultBaseCurrency)}</Text>
+      </View>
+
+      {/* Data */}
+      <View style={[styles.section, styles.lastSection, isDark && styles.darkSection]}>
+        <Text style={[styles.sectionTitle, isDark && styles.darkText]}>Data</Text>
+        <TouchableOpacity style={styles.dangerButton} onPress={() => handleClearCache(false)}>
+          <Text style={styles.buttonText}>Clear cached rates</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.dangerButton} onPress={() => handleClearCache(true)}>
+          <Text style={styles.buttonText}>Clear cached rates and history</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleReset}>
+          <Text style={styles.buttonText}>Restore default settings</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  darkContainer: {
+    backgroundColor: "#1a1a1a",
+  },
+  section: {
+    backgroundColor: "white",
+    margin: 20,
+    marginBottom: 0,
+    padding: 15,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  lastSection: {
+    marginBottom: 20,
+  },
+  darkSection: {
+    backgroundColor: "#2d2d2d",
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 5,
+  },
+  darkText: {
+    color: "#fff",
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 4,
+  },
+  noticeText: {
+    marginHorizontal: 20,
+    marginTop: 15,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#e3f2fd",
+    color: "#1565c0",
+    fontSize: 14,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginRight: 8,
+    marginBottom: 6,
+    backgroundColor: "#e1e5e9",
+  },
+  chipActive: {
+    backgroundColor: "#007AFF",
+  },
+  chipText: {
+    color: "#333",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: "white",
+  },
+  textInput: {
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: "#f8f9fa",
+  },
+  pickerContainer: {
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    backgroundColor: "#f8f9fa",
+  },
+  linkButton: {
+    paddingVertical: 10,
+    marginTop: 6,
+  },
+  linkButtonText: {
+    color: "#007AFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  dangerButton: {
+    backgroundColor: "#f44336",
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 10,
+  },
+  secondaryButton: {
+    backgroundColor: "#6c757d",
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 10,
+  },
+  buttonText: {
+    color: "white",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+});
+
+export default Settings;
@@ -0,0 +1,413 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Animated,
+  PanResponder,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  useColorScheme,
+} from "react-native";
+import { CURRENCY_CODES } from "../constants/currencies";
+import currencyService from "../services/currencyService";
+import rateOverrideService from "../services/rateOverrideService";
+import watchlistService, { Watchlist } from "../services/watchlistService";
+import CurrencyPicker, { CurrencyField } from "./CurrencyPicker";
+
+// Every currency row has the same height, so a drag distance maps directly onto a new position
+const ROW_HEIGHT = 52;
+
+interface ReorderableRowProps {
+  index: number;
+  count: number;
+  onMove: (from: number, to: number) => void;
+  onDragChange: (dragging: boolean) => void;
+  children: React.ReactNode;
+}
+
+// Row that follows the finger while its handle is dragged and drops into the nearest slot
+const ReorderableRow: React.FC<ReorderableRowProps> = ({ index, count, onMove, onDragChange, children }) => {
+  const translateY = useRef(new Animated.Value(0)).current;
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+
+  const panResponder = useMemo(() => {
+    const finish = (dy: number | null) => {
+      translateY.setValue(0);
+      setIsDragging(false);
+      onDragChange(false);
+      if (dy !== null) {
+        const target = Math.max(0, Math.min(count - 1, index + Math.round(dy / ROW_HEIGHT)));
+        if (target !== index) {
+          onMove(index, target);
+        }
+      }
+    };
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        setIsDragging(true);
+        onDragChange(true);
+      },
+      onPanResponderMove: Animated.event([null, { dy: translateY }], { useNativeDriver: false }),
+      onPanResponderRelease: (_, gesture) => finish(gesture.dy),
+      onPanResponderTerminate: () => finish(null),
+    });
+  }, [index, count, onMove, onDragChange, translateY]);
+
+  return (
+    <Animated.View style={[styles.row, isDragging && styles.draggingRow, { transform: [{ translateY }] }]}>
+      <View style={styles.dragHandle} {...panResponder.panHandlers}>
+        <Text style={styles.dragHandleText}>☰</Text>
+      </View>
+      {children}
+    </Animated.View>
+  );
+};
+
+const Watchlists: React.FC = () => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+
+  const [lists, setLists] = useState<Watchlist[]>(watchlistService.snapshot);
+  const [active, setActive] = useState<Watchlist>(watchlistService.active);
+  const [customCodes, setCustomCodes] = useState<string[]>(rateOverrideService.getActiveCustomCodes());
+  const [newListName, setNewListName] = useState<string>("");
+  const [name, setName] = useState<string>(watchlistService.active.name);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [isPickerOpen, setIsPickerOpen] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    watchlistService.load();
+    return watchlistService.subscribe(() => {
+      setLists(watchlistService.snapshot);
+      setActive(watchlistService.active);
+    });
+  }, []);
+
+  useEffect(() => rateOverrideService.subscribe(() => setCustomCodes(rateOverrideService.getActiveCustomCodes())), []);
+
+  // The name field edits whichever list is active
+  useEffect(() => {
+    setName(active.name);
+    setError(null);
+  }, [active.id, active.name]);
+
+  const currencyOptions = [...CURRENCY_CODES, ...customCodes];
+  const activeId = active.id;
+  const handleMove = useCallback((from: number, to: number) => watchlistService.moveCurrency(activeId, from, to), [activeId]);
+
+  const handleAddCurrency = (currency: string) => {
+    if (!active.currencies.includes(currency)) {
+      watchlistService.toggleCurrency(active.id, currency);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newListName.trim()) {
+      setError("Give the new list a name");
+      return;
+    }
+    await watchlistService.createWatchlist(newListName.trim());
+    setNewListName("");
+  };
+
+  const handleRename = () => {
+    if (name.trim() && name.trim() !== active.name) {
+      watchlistService.renameWatchlist(active.id, name.trim());
+    } else {
+      setName(active.name);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await watchlistService.deleteWatchlist(active.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not delete the list");
+    }
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, isDark && styles.darkContainer]}
+      keyboardShouldPersistTaps="handled"
+      scrollEnabled={!isDragging}>
+      <View style={[styles.section, isDark && styles.darkSection]}>
+        <Text style={[styles.sectionTitle, isDark && styles.darkText]}>Watchlists</Text>
+        <View style={styles.chipRow}>
+          {lists.map(list => (
+            <TouchableOpacity
+              key={list.id}
+              style={[styles.chip, list.id === active.id && styles.chipActive]}
+              onPress={() => watchlistService.setActive(list.id)}>
+              <Text style={[styles.chipText, list.id === active.id && styles.chipTextActive]}>{list.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.inlineRow}>
+          <TextInput
+            style={[styles.textInput, styles.inlineInput]}
+            value={newListName}
+            onChangeText={setNewListName}
+            placeholder="New list, e.g. Europe trip"
+            onSubmitEditing={handleCreate}
+          />
+          <TouchableOpacity style={styles.primaryButton} onPress={handleCreate}>
+            <Text style={styles.primaryButtonText}>Add</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={[styles.section, styles.lastSection, isDark && styles.darkSection]}>
+        <Text style={styles.label}>Name</Text>
+        <TextInput style={styles.textInput} value={name} onChangeText={setName} onBlur={handleRename} onSubmitEditing={handleRename} />
+
+        <Text style={styles.label}>Default base currency</Text>
+        <View style={styles.pickerContainer}>
+          <CurrencyField
+            value={active.baseCurrency}
+            onChange={currency => watchlistService.setBaseCurrency(active.id, currency)}
+            currencies={currencyOptions}
+            title="Default base currency"
+            noneLabel="Keep the current base"
+            onClear={() => watchlistService.setBaseCurrency(active.id, null)}
+          />
+        </View>
+
+        <Text style={styles.label}>Currencies</Text>
+        <TouchableOpacity style={styles.addButton} onPress={() => setIsPickerOpen(true)}>
+          <Text style={styles.addButtonText}>+ Add a currency</Text>
+        </TouchableOpacity>
+        <CurrencyPicker
+          visible={isPickerOpen}
+          currencies={currencyOptions.filter(currency => !active.currencies.includes(currency))}
+          title={`Add to ${active.name}`}
+          onSelect={handleAddCurrency}
+          onClose={() => setIsPickerOpen(false)}
+        />
+
+        {active.currencies.length === 0 ? (
+          <Text style={styles.hintText}>No currencies in this list yet.</Text>
+        ) : (
+          <Text style={styles.hintText}>Drag ☰ to change the order shown in the favorites strip.</Text>
+        )}
+        <View style={styles.rows}>
+          {active.currencies.map((currency, index) => (
+            <ReorderableRow
+              key={currency}
+              index={index}
+              count={active.currencies.length}
+              onMove={handleMove}
+              onDragChange={setIsDragging}>
+              <View style={styles.rowInfo}>
+                <Text style={[styles.rowCode, isDark && styles.darkText]}>{currency}</Text>
+                <Text style={styles.metaText} numberOfLines={1}>
+                  {currencyService.getCurrencyName(currency)}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.removeButton} onPress={() => watchlistService.toggleCurrency(active.id, currency)}>
+                <Text style={styles.removeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </ReorderableRow>
+          ))}
+        </View>
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        {lists.length > 1 && (
+          <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+            <Text style={styles.deleteButtonText}>Delete “{active.name}”</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  darkContainer: {
+    backgroundColor: "#1a1a1a",
+  },
+  section: {
+    backgroundColor: "white",
+    margin: 20,
+    marginBottom: 0,
+    padding: 15,
+    borderRadius: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  lastSection: {
+    marginBottom: 20,
+  },
+  darkSection: {
+    backgroundColor: "#2d2d2d",
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 10,
+  },
+  darkText: {
+    color: "#fff",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginRight: 8,
+    marginBottom: 6,
+    backgroundColor: "#e1e5e9",
+  },
+  chipActive: {
+    backgroundColor: "#007AFF",
+  },
+  chipText: {
+    color: "#333",
+    fontWeight: "600",
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: "white",
+  },
+  inlineRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  inlineInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 10,
+  },
+  textInput: {
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: "#f8f9fa",
+  },
+  pickerContainer: {
+    borderWidth: 2,
+    borderColor: "#e1e5e9",
+    borderRadius: 8,
+    backgroundColor: "#f8f9fa",
+  },
+  primaryButton: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "white",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+  addButton: {
+    borderWidth: 2,
+    borderColor: "#007AFF",
+    borderStyle: "dashed",
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  addButtonText: {
+    color: "#007AFF",
+    fontWeight: "600",
+  },
+  rows: {
+    marginTop: 6,
+  },
+  row: {
+    height: ROW_HEIGHT,
+    flexDirection: "row",
+    alignItems: "center",
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+    backgroundColor: "transparent",
+  },
+  draggingRow: {
+    zIndex: 1,
+    backgroundColor: "#e3f2fd",
+    borderRadius: 8,
+    elevation: 4,
+  },
+  dragHandle: {
+    paddingHorizontal: 12,
+    height: "100%",
+    justifyContent: "center",
+  },
+  dragHandleText: {
+    fontSize: 18,
+    color: "#999",
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowCode: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  metaText: {
+    fontSize: 12,
+    color: "#666",
+  },
+  removeButton: {
+    padding: 10,
+  },
+  removeButtonText: {
+    fontSize: 16,
+    color: "#999",
+  },
+  errorText: {
+    color: "#c62828",
+    fontSize: 14,
+    marginTop: 8,
+  },
+  deleteButton: {
+    backgroundColor: "#f44336",
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 16,
+  },
+  deleteButtonText: {
+    color: "white",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+});
+
+export default Watchlists;
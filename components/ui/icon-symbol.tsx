@@ -18,6 +18,9 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'dollarsign.circle.fill': 'monetization-on',
+  'clock.fill': 'history',
+  'arrow.left.arrow.right': 'swap-horiz',
 } as IconMapping;
 
 /**
@@ -0,0 +1,260 @@
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  numericCode: string;
+  minorUnits: number;
+  symbol: string;
+  narrowSymbol: string;
+  countries: string[]; // ISO 3166-1 alpha-2
+}
+
+export type AssetClass = "fiat" | "crypto" | "metal";
+
+export interface AssetInfo extends CurrencyInfo {
+  assetClass: Exclude<AssetClass, "fiat">;
+}
+
+// Active ISO 4217 currencies, excluding funds, metals and other special units
+export const CURRENCY_CATALOG: Record<string, CurrencyInfo> = {
+  AED: { code: "AED", name: "United Arab Emirates Dirham", numericCode: "784", minorUnits: 2, symbol: "AED", narrowSymbol: "AED", countries: ["AE"] },
+  AFN: { code: "AFN", name: "Afghan Afghani", numericCode: "971", minorUnits: 2, symbol: "؋", narrowSymbol: "؋", countries: ["AF"] },
+  ALL: { code: "ALL", name: "Albanian Lek", numericCode: "008", minorUnits: 2, symbol: "ALL", narrowSymbol: "ALL", countries: ["AL"] },
+  AMD: { code: "AMD", name: "Armenian Dram", numericCode: "051", minorUnits: 2, symbol: "֏", narrowSymbol: "֏", countries: ["AM"] },
+  AOA: { code: "AOA", name: "Angolan Kwanza", numericCode: "973", minorUnits: 2, symbol: "Kz", narrowSymbol: "Kz", countries: ["AO"] },
+  ARS: { code: "ARS", name: "Argentine Peso", numericCode: "032", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["AR"] },
+  AUD: { code: "AUD", name: "Australian Dollar", numericCode: "036", minorUnits: 2, symbol: "A$", narrowSymbol: "$", countries: ["AU", "CX", "CC", "HM", "KI", "NR", "NF", "TV"] },
+  AWG: { code: "AWG", name: "Aruban Florin", numericCode: "533", minorUnits: 2, symbol: "AWG", narrowSymbol: "AWG", countries: ["AW"] },
+  AZN: { code: "AZN", name: "Azerbaijani Manat", numericCode: "944", minorUnits: 2, symbol: "₼", narrowSymbol: "₼", countries: ["AZ"] },
+  BAM: { code: "BAM", name: "Bosnia-Herzegovina Convertible Mark", numericCode: "977", minorUnits: 2, symbol: "KM", narrowSymbol: "KM", countries: ["BA"] },
+  BBD: { code: "BBD", name: "Barbadian Dollar", numericCode: "052", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["BB"] },
+  BDT: { code: "BDT", name: "Bangladeshi Taka", numericCode: "050", minorUnits: 2, symbol: "৳", narrowSymbol: "৳", countries: ["BD"] },
+  BHD: { code: "BHD", name: "Bahraini Dinar", numericCode: "048", minorUnits: 3, symbol: "BHD", narrowSymbol: "BHD", countries: ["BH"] },
+  BIF: { code: "BIF", name: "Burundian Franc", numericCode: "108", minorUnits: 0, symbol: "BIF", narrowSymbol: "BIF", countries: ["BI"] },
+  BMD: { code: "BMD", name: "Bermudan Dollar", numericCode: "060", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["BM"] },
+  BND: { code: "BND", name: "Brunei Dollar", numericCode: "096", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["BN"] },
+  BOB: { code: "BOB", name: "Bolivian Boliviano", numericCode: "068", minorUnits: 2, symbol: "Bs", narrowSymbol: "Bs", countries: ["BO"] },
+  BRL: { code: "BRL", name: "Brazilian Real", numericCode: "986", minorUnits: 2, symbol: "R$", narrowSymbol: "R$", countries: ["BR"] },
+  BSD: { code: "BSD", name: "Bahamian Dollar", numericCode: "044", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["BS"] },
+  BTN: { code: "BTN", name: "Bhutanese Ngultrum", numericCode: "064", minorUnits: 2, symbol: "BTN", narrowSymbol: "BTN", countries: ["BT"] },
+  BWP: { code: "BWP", name: "Botswanan Pula", numericCode: "072", minorUnits: 2, symbol: "P", narrowSymbol: "P", countries: ["BW"] },
+  BYN: { code: "BYN", name: "Belarusian Ruble", numericCode: "933", minorUnits: 2, symbol: "BYN", narrowSymbol: "BYN", countries: ["BY"] },
+  BZD: { code: "BZD", name: "Belize Dollar", numericCode: "084", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["BZ"] },
+  CAD: { code: "CAD", name: "Canadian Dollar", numericCode: "124", minorUnits: 2, symbol: "C$", narrowSymbol: "$", countries: ["CA"] },
+  CDF: { code: "CDF", name: "Congolese Franc", numericCode: "976", minorUnits: 2, symbol: "CDF", narrowSymbol: "CDF", countries: ["CD"] },
+  CHF: { code: "CHF", name: "Swiss Franc", numericCode: "756", minorUnits: 2, symbol: "CHF", narrowSymbol: "CHF", countries: ["CH", "LI"] },
+  CLP: { code: "CLP", name: "Chilean Peso", numericCode: "152", minorUnits: 0, symbol: "$", narrowSymbol: "$", countries: ["CL"] },
+  CNY: { code: "CNY", name: "Chinese Yuan", numericCode: "156", minorUnits: 2, symbol: "¥", narrowSymbol: "¥", countries: ["CN"] },
+  COP: { code: "COP", name: "Colombian Peso", numericCode: "170", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["CO"] },
+  CRC: { code: "CRC", name: "Costa Rican Colón", numericCode: "188", minorUnits: 2, symbol: "₡", narrowSymbol: "₡", countries: ["CR"] },
+  CUP: { code: "CUP", name: "Cuban Peso", numericCode: "192", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["CU"] },
+  CVE: { code: "CVE", name: "Cape Verdean Escudo", numericCode: "132", minorUnits: 2, symbol: "CVE", narrowSymbol: "CVE", countries: ["CV"] },
+  CZK: { code: "CZK", name: "Czech Koruna", numericCode: "203", minorUnits: 2, symbol: "Kč", narrowSymbol: "Kč", countries: ["CZ"] },
+  DJF: { code: "DJF", name: "Djiboutian Franc", numericCode: "262", minorUnits: 0, symbol: "DJF", narrowSymbol: "DJF", countries: ["DJ"] },
+  DKK: { code: "DKK", name: "Danish Krone", numericCode: "208", minorUnits: 2, symbol: "kr", narrowSymbol: "kr", countries: ["DK", "FO", "GL"] },
+  DOP: { code: "DOP", name: "Dominican Peso", numericCode: "214", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["DO"] },
+  DZD: { code: "DZD", name: "Algerian Dinar", numericCode: "012", minorUnits: 2, symbol: "DZD", narrowSymbol: "DZD", countries: ["DZ"] },
+  EGP: { code: "EGP", name: "Egyptian Pound", numericCode: "818", minorUnits: 2, symbol: "E£", narrowSymbol: "E£", countries: ["EG"] },
+  ERN: { code: "ERN", name: "Eritrean Nakfa", numericCode: "232", minorUnits: 2, symbol: "ERN", narrowSymbol: "ERN", countries: ["ER"] },
+  ETB: { code: "ETB", name: "Ethiopian Birr", numericCode: "230", minorUnits: 2, symbol: "ETB", narrowSymbol: "ETB", countries: ["ET"] },
+  EUR: { code: "EUR", name: "Euro", numericCode: "978", minorUnits: 2, symbol: "€", narrowSymbol: "€", countries: ["AD", "AT", "AX", "BE", "BG", "BL", "CY", "DE", "EE", "ES", "FI", "FR", "GF", "GP", "GR", "HR", "IE", "IT", "LT", "LU", "LV", "MC", "ME", "MF", "MQ", "MT", "NL", "PM", "PT", "RE", "SI", "SK", "SM", "TF", "VA", "XK", "YT"] },
+  FJD: { code: "FJD", name: "Fijian Dollar", numericCode: "242", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["FJ"] },
+  FKP: { code: "FKP", name: "Falkland Islands Pound", numericCode: "238", minorUnits: 2, symbol: "£", narrowSymbol: "£", countries: ["FK"] },
+  GBP: { code: "GBP", name: "British Pound", numericCode: "826", minorUnits: 2, symbol: "£", narrowSymbol: "£", countries: ["GB", "GG", "IM", "JE"] },
+  GEL: { code: "GEL", name: "Georgian Lari", numericCode: "981", minorUnits: 2, symbol: "₾", narrowSymbol: "₾", countries: ["GE"] },
+  GHS: { code: "GHS", name: "Ghanaian Cedi", numericCode: "936", minorUnits: 2, symbol: "GH₵", narrowSymbol: "GH₵", countries: ["GH"] },
+  GIP: { code: "GIP", name: "Gibraltar Pound", numericCode: "292", minorUnits: 2, symbol: "£", narrowSymbol: "£", countries: ["GI"] },
+  GMD: { code: "GMD", name: "Gambian Dalasi", numericCode: "270", minorUnits: 2, symbol: "GMD", narrowSymbol: "GMD", countries: ["GM"] },
+  GNF: { code: "GNF", name: "Guinean Franc", numericCode: "324", minorUnits: 0, symbol: "FG", narrowSymbol: "FG", countries: ["GN"] },
+  GTQ: { code: "GTQ", name: "Guatemalan Quetzal", numericCode: "320", minorUnits: 2, symbol: "Q", narrowSymbol: "Q", countries: ["GT"] },
+  GYD: { code: "GYD", name: "Guyanaese Dollar", numericCode: "328", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["GY"] },
+  HKD: { code: "HKD", name: "Hong Kong Dollar", numericCode: "344", minorUnits: 2, symbol: "HK$", narrowSymbol: "$", countries: ["HK"] },
+  HNL: { code: "HNL", name: "Honduran Lempira", numericCode: "340", minorUnits: 2, symbol: "L", narrowSymbol: "L", countries: ["HN"] },
+  HTG: { code: "HTG", name: "Haitian Gourde", numericCode: "332", minorUnits: 2, symbol: "HTG", narrowSymbol: "HTG", countries: ["HT"] },
+  HUF: { code: "HUF", name: "Hungarian Forint", numericCode: "348", minorUnits: 2, symbol: "Ft", narrowSymbol: "Ft", countries: ["HU"] },
+  IDR: { code: "IDR", name: "Indonesian Rupiah", numericCode: "360", minorUnits: 2, symbol: "Rp", narrowSymbol: "Rp", countries: ["ID"] },
+  ILS: { code: "ILS", name: "Israeli New Shekel", numericCode: "376", minorUnits: 2, symbol: "₪", narrowSymbol: "₪", countries: ["IL", "PS"] },
+  INR: { code: "INR", name: "Indian Rupee", numericCode: "356", minorUnits: 2, symbol: "₹", narrowSymbol: "₹", countries: ["IN", "BT"] },
+  IQD: { code: "IQD", name: "Iraqi Dinar", numericCode: "368", minorUnits: 3, symbol: "IQD", narrowSymbol: "IQD", countries: ["IQ"] },
+  IRR: { code: "IRR", name: "Iranian Rial", numericCode: "364", minorUnits: 2, symbol: "IRR", narrowSymbol: "IRR", countries: ["IR"] },
+  ISK: { code: "ISK", name: "Icelandic Króna", numericCode: "352", minorUnits: 0, symbol: "kr", narrowSymbol: "kr", countries: ["IS"] },
+  JMD: { code: "JMD", name: "Jamaican Dollar", numericCode: "388", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["JM"] },
+  JOD: { code: "JOD", name: "Jordanian Dinar", numericCode: "400", minorUnits: 3, symbol: "JOD", narrowSymbol: "JOD", countries: ["JO"] },
+  JPY: { code: "JPY", name: "Japanese Yen", numericCode: "392", minorUnits: 0, symbol: "¥", narrowSymbol: "¥", countries: ["JP"] },
+  KES: { code: "KES", name: "Kenyan Shilling", numericCode: "404", minorUnits: 2, symbol: "KES", narrowSymbol: "KES", countries: ["KE"] },
+  KGS: { code: "KGS", name: "Kyrgystani Som", numericCode: "417", minorUnits: 2, symbol: "⃀", narrowSymbol: "⃀", countries: ["KG"] },
+  KHR: { code: "KHR", name: "Cambodian Riel", numericCode: "116", minorUnits: 2, symbol: "៛", narrowSymbol: "៛", countries: ["KH"] },
+  KMF: { code: "KMF", name: "Comorian Franc", numericCode: "174", minorUnits: 0, symbol: "CF", narrowSymbol: "CF", countries: ["KM"] },
+  KPW: { code: "KPW", name: "North Korean Won", numericCode: "408", minorUnits: 2, symbol: "₩", narrowSymbol: "₩", countries: ["KP"] },
+  KRW: { code: "KRW", name: "South Korean Won", numericCode: "410", minorUnits: 0, symbol: "₩", narrowSymbol: "₩", countries: ["KR"] },
+  KWD: { code: "KWD", name: "Kuwaiti Dinar", numericCode: "414", minorUnits: 3, symbol: "KWD", narrowSymbol: "KWD", countries: ["KW"] },
+  KYD: { code: "KYD", name: "Cayman Islands Dollar", numericCode: "136", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["KY"] },
+  KZT: { code: "KZT", name: "Kazakhstani Tenge", numericCode: "398", minorUnits: 2, symbol: "₸", narrowSymbol: "₸", countries: ["KZ"] },
+  LAK: { code: "LAK", name: "Laotian Kip", numericCode: "418", minorUnits: 2, symbol: "₭", narrowSymbol: "₭", countries: ["LA"] },
+  LBP: { code: "LBP", name: "Lebanese Pound", numericCode: "422", minorUnits: 2, symbol: "L£", narrowSymbol: "L£", countries: ["LB"] },
+  LKR: { code: "LKR", name: "Sri Lankan Rupee", numericCode: "144", minorUnits: 2, symbol: "Rs", narrowSymbol: "Rs", countries: ["LK"] },
+  LRD: { code: "LRD", name: "Liberian Dollar", numericCode: "430", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["LR"] },
+  LSL: { code: "LSL", name: "Lesotho Loti", numericCode: "426", minorUnits: 2, symbol: "LSL", narrowSymbol: "LSL", countries: ["LS"] },
+  LYD: { code: "LYD", name: "Libyan Dinar", numericCode: "434", minorUnits: 3, symbol: "LYD", narrowSymbol: "LYD", countries: ["LY"] },
+  MAD: { code: "MAD", name: "Moroccan Dirham", numericCode: "504", minorUnits: 2, symbol: "MAD", narrowSymbol: "MAD", countries: ["MA", "EH"] },
+  MDL: { code: "MDL", name: "Moldovan Leu", numericCode: "498", minorUnits: 2, symbol: "MDL", narrowSymbol: "MDL", countries: ["MD"] },
+  MGA: { code: "MGA", name: "Malagasy Ariary", numericCode: "969", minorUnits: 2, symbol: "Ar", narrowSymbol: "Ar", countries: ["MG"] },
+  MKD: { code: "MKD", name: "Macedonian Denar", numericCode: "807", minorUnits: 2, symbol: "MKD", narrowSymbol: "MKD", countries: ["MK"] },
+  MMK: { code: "MMK", name: "Myanmar Kyat", numericCode: "104", minorUnits: 2, symbol: "K", narrowSymbol: "K", countries: ["MM"] },
+  MNT: { code: "MNT", name: "Mongolian Tugrik", numericCode: "496", minorUnits: 2, symbol: "₮", narrowSymbol: "₮", countries: ["MN"] },
+  MOP: { code: "MOP", name: "Macanese Pataca", numericCode: "446", minorUnits: 2, symbol: "MOP", narrowSymbol: "MOP", countries: ["MO"] },
+  MRU: { code: "MRU", name: "Mauritanian Ouguiya", numericCode: "929", minorUnits: 2, symbol: "MRU", narrowSymbol: "MRU", countries: ["MR"] },
+  MUR: { code: "MUR", name: "Mauritian Rupee", numericCode: "480", minorUnits: 2, symbol: "Rs", narrowSymbol: "Rs", countries: ["MU"] },
+  MVR: { code: "MVR", name: "Maldivian Rufiyaa", numericCode: "462", minorUnits: 2, symbol: "MVR", narrowSymbol: "MVR", countries: ["MV"] },
+  MWK: { code: "MWK", name: "Malawian Kwacha", numericCode: "454", minorUnits: 2, symbol: "MWK", narrowSymbol: "MWK", countries: ["MW"] },
+  MXN: { code: "MXN", name: "Mexican Peso", numericCode: "484", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["MX"] },
+  MYR: { code: "MYR", name: "Malaysian Ringgit", numericCode: "458", minorUnits: 2, symbol: "RM", narrowSymbol: "RM", countries: ["MY"] },
+  MZN: { code: "MZN", name: "Mozambican Metical", numericCode: "943", minorUnits: 2, symbol: "MZN", narrowSymbol: "MZN", countries: ["MZ"] },
+  NAD: { code: "NAD", name: "Namibian Dollar", numericCode: "516", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["NA"] },
+  NGN: { code: "NGN", name: "Nigerian Naira", numericCode: "566", minorUnits: 2, symbol: "₦", narrowSymbol: "₦", countries: ["NG"] },
+  NIO: { code: "NIO", name: "Nicaraguan Córdoba", numericCode: "558", minorUnits: 2, symbol: "C$", narrowSymbol: "C$", countries: ["NI"] },
+  NOK: { code: "NOK", name: "Norwegian Krone", numericCode: "578", minorUnits: 2, symbol: "kr", narrowSymbol: "kr", countries: ["NO", "SJ", "BV"] },
+  NPR: { code: "NPR", name: "Nepalese Rupee", numericCode: "524", minorUnits: 2, symbol: "Rs", narrowSymbol: "Rs", countries: ["NP"] },
+  NZD: { code: "NZD", name: "New Zealand Dollar", numericCode: "554", minorUnits: 2, symbol: "NZ$", narrowSymbol: "$", countries: ["NZ", "CK", "NU", "PN", "TK"] },
+  OMR: { code: "OMR", name: "Omani Rial", numericCode: "512", minorUnits: 3, symbol: "OMR", narrowSymbol: "OMR", countries: ["OM"] },
+  PAB: { code: "PAB", name: "Panamanian Balboa", numericCode: "590", minorUnits: 2, symbol: "PAB", narrowSymbol: "PAB", countries: ["PA"] },
+  PEN: { code: "PEN", name: "Peruvian Sol", numericCode: "604", minorUnits: 2, symbol: "PEN", narrowSymbol: "PEN", countries: ["PE"] },
+  PGK: { code: "PGK", name: "Papua New Guinean Kina", numericCode: "598", minorUnits: 2, symbol: "PGK", narrowSymbol: "PGK", countries: ["PG"] },
+  PHP: { code: "PHP", name: "Philippine Peso", numericCode: "608", minorUnits: 2, symbol: "₱", narrowSymbol: "₱", countries: ["PH"] },
+  PKR: { code: "PKR", name: "Pakistani Rupee", numericCode: "586", minorUnits: 2, symbol: "Rs", narrowSymbol: "Rs", countries: ["PK"] },
+  PLN: { code: "PLN", name: "Polish Zloty", numericCode: "985", minorUnits: 2, symbol: "zł", narrowSymbol: "zł", countries: ["PL"] },
+  PYG: { code: "PYG", name: "Paraguayan Guarani", numericCode: "600", minorUnits: 0, symbol: "₲", narrowSymbol: "₲", countries: ["PY"] },
+  QAR: { code: "QAR", name: "Qatari Riyal", numericCode: "634", minorUnits: 2, symbol: "QAR", narrowSymbol: "QAR", countries: ["QA"] },
+  RON: { code: "RON", name: "Romanian Leu", numericCode: "946", minorUnits: 2, symbol: "lei", narrowSymbol: "lei", countries: ["RO"] },
+  RSD: { code: "RSD", name: "Serbian Dinar", numericCode: "941", minorUnits: 2, symbol: "RSD", narrowSymbol: "RSD", countries: ["RS"] },
+  RUB: { code: "RUB", name: "Russian Ruble", numericCode: "643", minorUnits: 2, symbol: "₽", narrowSymbol: "₽", countries: ["RU"] },
+  RWF: { code: "RWF", name: "Rwandan Franc", numericCode: "646", minorUnits: 0, symbol: "RF", narrowSymbol: "RF", countries: ["RW"] },
+  SAR: { code: "SAR", name: "Saudi Riyal", numericCode: "682", minorUnits: 2, symbol: "SAR", narrowSymbol: "SAR", countries: ["SA"] },
+  SBD: { code: "SBD", name: "Solomon Islands Dollar", numericCode: "090", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["SB"] },
+  SCR: { code: "SCR", name: "Seychellois Rupee", numericCode: "690", minorUnits: 2, symbol: "SCR", narrowSymbol: "SCR", countries: ["SC"] },
+  SDG: { code: "SDG", name: "Sudanese Pound", numericCode: "938", minorUnits: 2, symbol: "SDG", narrowSymbol: "SDG", countries: ["SD"] },
+  SEK: { code: "SEK", name: "Swedish Krona", numericCode: "752", minorUnits: 2, symbol: "kr", narrowSymbol: "kr", countries: ["SE"] },
+  SGD: { code: "SGD", name: "Singapore Dollar", numericCode: "702", minorUnits: 2, symbol: "S$", narrowSymbol: "$", countries: ["SG"] },
+  SHP: { code: "SHP", name: "St. Helena Pound", numericCode: "654", minorUnits: 2, symbol: "£", narrowSymbol: "£", countries: ["SH"] },
+  SLE: { code: "SLE", name: "Sierra Leonean Leone", numericCode: "925", minorUnits: 2, symbol: "SLE", narrowSymbol: "SLE", countries: ["SL"] },
+  SOS: { code: "SOS", name: "Somali Shilling", numericCode: "706", minorUnits: 2, symbol: "SOS", narrowSymbol: "SOS", countries: ["SO"] },
+  SRD: { code: "SRD", name: "Surinamese Dollar", numericCode: "968", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["SR"] },
+  SSP: { code: "SSP", name: "South Sudanese Pound", numericCode: "728", minorUnits: 2, symbol: "£", narrowSymbol: "£", countries: ["SS"] },
+  STN: { code: "STN", name: "São Tomé & Príncipe Dobra", numericCode: "930", minorUnits: 2, symbol: "Db", narrowSymbol: "Db", countries: ["ST"] },
+  SVC: { code: "SVC", name: "Salvadoran Colón", numericCode: "222", minorUnits: 2, symbol: "SVC", narrowSymbol: "SVC", countries: ["SV"] },
+  SYP: { code: "SYP", name: "Syrian Pound", numericCode: "760", minorUnits: 2, symbol: "£", narrowSymbol: "£", countries: ["SY"] },
+  SZL: { code: "SZL", name: "Swazi Lilangeni", numericCode: "748", minorUnits: 2, symbol: "SZL", narrowSymbol: "SZL", countries: ["SZ"] },
+  THB: { code: "THB", name: "Thai Baht", numericCode: "764", minorUnits: 2, symbol: "฿", narrowSymbol: "฿", countries: ["TH"] },
+  TJS: { code: "TJS", name: "Tajikistani Somoni", numericCode: "972", minorUnits: 2, symbol: "TJS", narrowSymbol: "TJS", countries: ["TJ"] },
+  TMT: { code: "TMT", name: "Turkmenistani Manat", numericCode: "934", minorUnits: 2, symbol: "TMT", narrowSymbol: "TMT", countries: ["TM"] },
+  TND: { code: "TND", name: "Tunisian Dinar", numericCode: "788", minorUnits: 3, symbol: "TND", narrowSymbol: "TND", countries: ["TN"] },
+  TOP: { code: "TOP", name: "Tongan Paʻanga", numericCode: "776", minorUnits: 2, symbol: "T$", narrowSymbol: "T$", countries: ["TO"] },
+  TRY: { code: "TRY", name: "Turkish Lira", numericCode: "949", minorUnits: 2, symbol: "₺", narrowSymbol: "₺", countries: ["TR"] },
+  TTD: { code: "TTD", name: "Trinidad & Tobago Dollar", numericCode: "780", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["TT"] },
+  TWD: { code: "TWD", name: "New Taiwan Dollar", numericCode: "901", minorUnits: 2, symbol: "NT$", narrowSymbol: "$", countries: ["TW"] },
+  TZS: { code: "TZS", name: "Tanzanian Shilling", numericCode: "834", minorUnits: 2, symbol: "TZS", narrowSymbol: "TZS", countries: ["TZ"] },
+  UAH: { code: "UAH", name: "Ukrainian Hryvnia", numericCode: "980", minorUnits: 2, symbol: "₴", narrowSymbol: "₴", countries: ["UA"] },
+  UGX: { code: "UGX", name: "Ugandan Shilling", numericCode: "800", minorUnits: 0, symbol: "UGX", narrowSymbol: "UGX", countries: ["UG"] },
+  USD: { code: "USD", name: "US Dollar", numericCode: "840", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["US", "AS", "BQ", "EC", "FM", "GU", "IO", "MH", "MP", "PR", "PW", "SV", "TC", "TL", "UM", "VG", "VI"] },
+  UYU: { code: "UYU", name: "Uruguayan Peso", numericCode: "858", minorUnits: 2, symbol: "$", narrowSymbol: "$", countries: ["UY"] },
+  UZS: { code: "UZS", name: "Uzbekistani Som", numericCode: "860", minorUnits: 2, symbol: "UZS", narrowSymbol: "UZS", countries: ["UZ"] },
+  VES: { code: "VES", name: "Venezuelan Bolívar", numericCode: "928", minorUnits: 2, symbol: "VES", narrowSymbol: "VES", countries: ["VE"] },
+  VND: { code: "VND", name: "Vietnamese Dong", numericCode: "704", minorUnits: 0, symbol: "₫", narrowSymbol: "₫", countries: ["VN"] },
+  VUV: { code: "VUV", name: "Vanuatu Vatu", numericCode: "548", minorUnits: 0, symbol: "VUV", narrowSymbol: "VUV", countries: ["VU"] },
+  WST: { code: "WST", name: "Samoan Tala", numericCode: "882", minorUnits: 2, symbol: "WST", narrowSymbol: "WST", countries: ["WS"] },
+  XAF: { code: "XAF", name: "Central African CFA Franc", numericCode: "950", minorUnits: 0, symbol: "FCFA", narrowSymbol: "FCFA", countries: ["CM", "CF", "CG", "GA", "GQ", "TD"] },
+  XCD: { code: "XCD", name: "East Caribbean Dollar", numericCode: "951", minorUnits: 2, symbol: "EC$", narrowSymbol: "$", countries: ["AG", "AI", "DM", "GD", "KN", "LC", "MS", "VC"] },
+  XCG: { code: "XCG", name: "Caribbean Guilder", numericCode: "532", minorUnits: 2, symbol: "Cg.", narrowSymbol: "Cg.", countries: ["CW", "SX"] },
+  XOF: { code: "XOF", name: "West African CFA Franc", numericCode: "952", minorUnits: 0, symbol: "F CFA", narrowSymbol: "F CFA", countries: ["BJ", "BF", "CI", "GW", "ML", "NE", "SN", "TG"] },
+  XPF: { code: "XPF", name: "CFP Franc", numericCode: "953", minorUnits: 0, symbol: "CFPF", narrowSymbol: "CFPF", countries: ["NC", "PF", "WF"] },
+  YER: { code: "YER", name: "Yemeni Rial", numericCode: "886", minorUnits: 2, symbol: "YER", narrowSymbol: "YER", countries: ["YE"] },
+  ZAR: { code: "ZAR", name: "South African Rand", numericCode: "710", minorUnits: 2, symbol: "R", narrowSymbol: "R", countries: ["ZA", "LS", "NA"] },
+  ZMW: { code: "ZMW", name: "Zambian Kwacha", numericCode: "967", minorUnits: 2, symbol: "ZK", narrowSymbol: "ZK", countries: ["ZM"] },
+  ZWG: { code: "ZWG", name: "Zimbabwe Gold", numericCode: "924", minorUnits: 2, symbol: "ZWG", narrowSymbol: "ZWG", countries: ["ZW"] },
+};
+
+// Withdrawn ISO 4217 codes mapped to the currency that replaced them
+export const RETIRED_CURRENCIES: Record<string, string> = {
+  ANG: "XCG",
+  BGN: "EUR",
+  BYR: "BYN",
+  CUC: "CUP",
+  CYP: "EUR",
+  EEK: "EUR",
+  GHC: "GHS",
+  HRK: "EUR",
+  LTL: "EUR",
+  LVL: "EUR",
+  MRO: "MRU",
+  MTL: "EUR",
+  MZM: "MZN",
+  ROL: "RON",
+  SIT: "EUR",
+  SKK: "EUR",
+  SLL: "SLE",
+  STD: "STN",
+  TMM: "TMT",
+  TRL: "TRY",
+  VEF: "VES",
+  ZMK: "ZMW",
+  ZWL: "ZWG",
+};
+
+// Non-fiat assets quoted alongside currencies. Codes need not be ISO 4217; metals are
+// priced per troy ounce, and minor units are the display precision rather than a legal unit.
+export const ASSET_CATALOG: Record<string, AssetInfo> = {
+  BTC: { code: "BTC", name: "Bitcoin", numericCode: "", minorUnits: 8, symbol: "₿", narrowSymbol: "₿", countries: [], assetClass: "crypto" },
+  ETH: { code: "ETH", name: "Ether", numericCode: "", minorUnits: 8, symbol: "Ξ", narrowSymbol: "Ξ", countries: [], assetClass: "crypto" },
+  USDT: { code: "USDT", name: "Tether", numericCode: "", minorUnits: 2, symbol: "USDT", narrowSymbol: "USDT", countries: [], assetClass: "crypto" },
+  XAU: { code: "XAU", name: "Gold (troy ounce)", numericCode: "959", minorUnits: 4, symbol: "XAU", narrowSymbol: "XAU", countries: [], assetClass: "metal" },
+  XAG: { code: "XAG", name: "Silver (troy ounce)", numericCode: "961", minorUnits: 4, symbol: "XAG", narrowSymbol: "XAG", countries: [], assetClass: "metal" },
+};
+
+export const ASSET_CODES = Object.keys(ASSET_CATALOG).sort();
+
+// Fiat and assets in one alphabetical list, as shown in pickers and rate lists
+export const CURRENCY_CODES = [...Object.keys(CURRENCY_CATALOG), ...ASSET_CODES].sort();
+
+export function getCurrencyInfo(code: string): CurrencyInfo | undefined {
+  return CURRENCY_CATALOG[code] ?? ASSET_CATALOG[code];
+}
+
+export function getAssetClass(code: string): AssetClass {
+  return ASSET_CATALOG[code]?.assetClass ?? "fiat";
+}
+
+export function isKnownCurrency(code: string): boolean {
+  return code in CURRENCY_CATALOG || code in ASSET_CATALOG;
+}
+
+// Maps a stored or API-provided code onto the catalog: active codes pass through,
+// retired codes resolve to their successor, anything else yields null
+export function resolveCurrencyCode(code: string): string | null {
+  const normalized = code.trim().toUpperCase();
+  if (isKnownCurrency(normalized)) {
+    return normalized;
+  }
+  return RETIRED_CURRENCIES[normalized] ?? null;
+}
+
+// Most successors were redenominations (1,000,000 TRL = 1 TRY), so input that comes with an
+// amount must not be resolved through RETIRED_CURRENCIES: the amount would be off by the factor
+export function isRetiredCurrencyCode(code: string): boolean {
+  return code.trim().toUpperCase() in RETIRED_CURRENCIES;
+}
+
+// Emoji flag for a fiat currency: ISO 4217 codes start with the issuing country's code, the euro
+// gets the EU flag, and shared currencies such as XOF fall back to their first country.
+// Assets and custom currencies have no flag.
+export function getCurrencyFlag(code: string): string {
+  const info = CURRENCY_CATALOG[code];
+  if (!info) {
+    return "";
+  }
+  const prefix = code.slice(0, 2);
+  const country = code === "EUR" ? "EU" : info.countries.includes(prefix) ? prefix : info.countries[0];
+  if (!country) {
+    return "";
+  }
+  // Regional indicator symbols A-Z start at U+1F1E6
+  return String.fromCodePoint(...[...country].map(letter => 0x1f1e6 + letter.charCodeAt(0) - 65));
+}
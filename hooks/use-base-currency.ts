@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+
+import appStore from '@/services/appStore';
+import preferencesService from '@/services/preferencesService';
+
+/**
+ * The app-wide base currency; until the saved one has been read this is the default base
+ * from preferences and `isLoaded` is false
+ */
+export function useBaseCurrency() {
+  const baseCurrency = useSyncExternalStore(appStore.subscribe, () => appStore.getBaseCurrency());
+
+  useEffect(() => {
+    appStore.loadBaseCurrency();
+  }, []);
+
+  const setBaseCurrency = useCallback((currency: string) => appStore.setBaseCurrency(currency), []);
+
+  return {
+    baseCurrency: baseCurrency ?? preferencesService.snapshot.defaultBaseCurrency,
+    isLoaded: baseCurrency !== null,
+    setBaseCurrency,
+  };
+}
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import appStore from '@/services/appStore';
+
+/**
+ * Rates for `base` from the shared store, loaded on first use; every screen asking for the
+ * same base sees the same snapshot, loading flags and error. Saved rates show at once while
+ * newer ones are fetched, and moving to another base cancels the request for the old one.
+ */
+export function useExchangeRates(base: string) {
+  const rates = useSyncExternalStore(appStore.subscribe, () => appStore.getRates(base));
+  const isOnline = useOnlineStatus();
+
+  useEffect(() => {
+    appStore.setOnline(isOnline);
+  }, [isOnline]);
+
+  useEffect(() => appStore.watchRates(base), [base]);
+
+  const refresh = useCallback(() => appStore.loadRates(base), [base]);
+
+  return { ...rates, refresh };
+}
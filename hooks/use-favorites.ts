@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+
+import currencyService from '@/services/currencyService';
+import rateOverrideService from '@/services/rateOverrideService';
+import watchlistService, { Watchlist } from '@/services/watchlistService';
+
+// Custom currencies appearing or expiring change which favorites resolve
+function subscribe(listener: () => void) {
+  const unsubscribeWatchlists = watchlistService.subscribe(listener);
+  const unsubscribeOverrides = rateOverrideService.subscribe(listener);
+  return () => {
+    unsubscribeWatchlists();
+    unsubscribeOverrides();
+  };
+}
+
+/**
+ * Favorites are the currencies of the active watchlist, in the order the user arranged them
+ */
+export function useFavorites() {
+  const watchlists = useSyncExternalStore(subscribe, () => watchlistService.snapshot);
+  const activeWatchlist = useSyncExternalStore(subscribe, () => watchlistService.active);
+  // Resolving depends on the active custom currencies too; keyed by the resolved codes, the list
+  // keeps its identity until it actually changes
+  const favoritesKey = useSyncExternalStore(subscribe, () =>
+    currencyService.resolveCodes(watchlistService.active.currencies).join()
+  );
+
+  useEffect(() => {
+    watchlistService.load();
+    rateOverrideService.load();
+  }, []);
+
+  const favorites = useMemo(() => (favoritesKey ? favoritesKey.split(',') : []), [favoritesKey]);
+
+  const toggleFavorite = useCallback((currency: string) => currencyService.toggleFavoriteCurrency(currency), []);
+  const selectWatchlist = useCallback((list: Watchlist) => watchlistService.setActive(list.id), []);
+
+  return { favorites, watchlists, activeWatchlist, toggleFavorite, selectWatchlist };
+}
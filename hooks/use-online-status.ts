@@ -0,0 +1,7 @@
+/**
+ * Native builds have no reliable connectivity signal without an extra module, so they
+ * report online and rely on failed fetches falling back to cached rates
+ */
+export function useOnlineStatus() {
+  return true;
+}
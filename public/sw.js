@@ -0,0 +1,82 @@
+// Service worker for the static web build. The app shell (the start page and every
+// script, style and asset it references) is precached on install so the converter
+// opens without a network; rate requests are never cached here because the app keeps
+// its own last snapshot in IndexedDB.
+// The page registers this worker as /sw.js?v=<app version>; each version gets its own cache
+// and activation deletes the caches of earlier ones.
+const VERSION = new URL(self.location.href).searchParams.get("v") ?? "dev";
+const CACHE_NAME = `currencysnap-shell-${VERSION}`;
+// Exported bundles and assets carry a content hash in their path, so a cached copy never goes stale
+const HASHED_ASSET_PREFIX = "/_expo/static/";
+const SHELL_URLS = ["/", "/manifest.json", "/icon.png", "/favicon.ico"];
+
+async function precacheShell() {
+  const cache = await caches.open(CACHE_NAME);
+  const response = await fetch("/", { cache: "reload" });
+  const html = await response.clone().text();
+  await cache.put("/", response);
+
+  // Exported bundles have content hashes in their names, so read them from the page
+  const referenced = [...html.matchAll(/(?:src|href)="(\/[^"]+)"/g)].map(match => match[1]);
+  const urls = [...new Set([...SHELL_URLS.slice(1), ...referenced])];
+  await Promise.all(
+    urls.map(url =>
+      cache.add(url).catch(error => {
+        console.warn(`Could not precache ${url}:`, error);
+      })
+    )
+  );
+}
+
+self.addEventListener("install", event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(names => Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", event => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+
+  // Pages and unhashed files (manifest, icons): network first so deploys show up, falling back
+  // to the cached copy, and to the shell for pages
+  if (!url.pathname.startsWith(HASHED_ASSET_PREFIX)) {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+          }
+          return response;
+        })
+        .catch(async () => (await caches.match(request)) ?? (request.mode === "navigate" ? caches.match("/") : Response.error()))
+    );
+    return;
+  }
+
+  // Hashed bundles and assets: cache first, filling the cache on the way
+  event.respondWith(
+    caches.match(request).then(
+      cached =>
+        cached ??
+        fetch(request).then(response => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+          }
+          return response;
+        })
+    )
+  );
+});
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+
+/**
+ * Serves the bundled rate fixture over HTTP, as a local stand-in for the live rate APIs.
+ * Start it with `npm run fixture-server`, then run the app with
+ * EXPO_PUBLIC_RATE_MODE=fixture EXPO_PUBLIC_FIXTURE_RATES_URL=http://localhost:8787/rates.json
+ * Pass another fixture file as the first argument to serve different snapshots.
+ */
+
+const fs = require("fs");
+const http = require("http");
+const path = require("path");
+
+const port = Number(process.env.PORT) || 8787;
+const fixturePath = path.resolve(process.argv[2] || path.join(__dirname, "..", "assets", "fixtures", "rates.json"));
+
+const server = http.createServer((request, response) => {
+  // The web build fetches from another origin
+  response.setHeader("Access-Control-Allow-Origin", "*");
+
+  if (request.method !== "GET" || request.url !== "/rates.json") {
+    response.writeHead(404, { "Content-Type": "text/plain" });
+    response.end("Not found");
+    return;
+  }
+
+  // Read on every request so edits to the fixture apply without a restart
+  fs.readFile(fixturePath, (error, contents) => {
+    if (error) {
+      response.writeHead(500, { "Content-Type": "text/plain" });
+      response.end(`Could not read ${fixturePath}`);
+      return;
+    }
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(contents);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Serving ${fixturePath} at http://localhost:${port}/rates.json`);
+});
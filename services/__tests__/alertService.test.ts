@@ -0,0 +1,34 @@
+import alertService from "../alertService";
+import currencyService from "../currencyService";
+import { Decimal } from "../decimal";
+
+jest.mock("@react-native-async-storage/async-storage", () => require("@react-native-async-storage/async-storage/jest/async-storage-mock"));
+
+describe("alert checks", () => {
+  it("keeps alert changes made while the rates were being fetched", async () => {
+    const kept = await alertService.createAlert("EUR", "USD", { type: "above", threshold: 1.1 });
+    const deleted = await alertService.createAlert("EUR", "GBP", { type: "above", threshold: 0.8 });
+
+    let added: string | null = null;
+    jest.spyOn(currencyService, "getExchangeRates").mockImplementation(async () => {
+      if (!added) {
+        added = (await alertService.createAlert("EUR", "JPY", { type: "below", threshold: 150 })).id;
+        await alertService.setAlertPaused(kept.id, true);
+        await alertService.deleteAlert(deleted.id);
+      }
+      return { base: "EUR", rates: { EUR: 1, USD: 1.2, GBP: 0.9 }, provider: "exchangerate-api", publishedAt: 0, fetchedAt: 0, source: "network" };
+    });
+    jest.spyOn(currencyService, "getLiveCrossRate").mockImplementation((base, quote) => ({
+      rate: Decimal.from(quote === "USD" ? 1.2 : 0.9),
+      pivot: base,
+      manual: false,
+    }));
+
+    const triggers = await alertService.checkAlerts();
+
+    expect(triggers.map(trigger => trigger.alertId)).toEqual([kept.id]);
+    const alerts = await alertService.getAlerts();
+    expect(alerts.map(alert => alert.id)).toEqual([kept.id, added]);
+    expect(alerts[0]).toMatchObject({ paused: true, lastRate: 1.2 });
+  });
+});
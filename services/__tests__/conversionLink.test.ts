@@ -0,0 +1,38 @@
+import { buildConversionLink, parseConversionLink } from "../conversionLink";
+import { Decimal } from "../decimal";
+
+// The real createURL needs the app manifest to pick a scheme
+jest.mock("expo-linking", () => ({
+  createURL: (path: string, { queryParams }: { queryParams: Record<string, string> }) =>
+    `currencysnap://${path}?${new URLSearchParams(queryParams).toString()}`,
+}));
+
+// Reads the query of a built link back the way expo-router hands it to the convert screen
+function roundTrip(amount: Decimal | null) {
+  const url = buildConversionLink({ amount, from: "EUR", to: ["USD", "GBP"] });
+  const query = new URLSearchParams(url.slice(url.indexOf("?") + 1));
+  return parseConversionLink(Object.fromEntries(query.entries()));
+}
+
+describe("conversion links", () => {
+  it("round-trips an amount, base and targets", () => {
+    const link = roundTrip(Decimal.parse("250.5"));
+    expect(link.amount?.toString()).toBe("250.5");
+    expect(link.from).toBe("EUR");
+    expect(link.to).toEqual(["USD", "GBP"]);
+  });
+
+  it("writes computed amounts in a form the parser accepts", () => {
+    expect(roundTrip(Decimal.from(1200).divide(3)).amount?.toString()).toBe("400");
+    expect(roundTrip(Decimal.from(1).divide(3)).amount?.toString()).toBe("0.3333333333");
+    expect(roundTrip(Decimal.parse("12.50")).amount?.toString()).toBe("12.5");
+  });
+
+  it("drops an amount given in a withdrawn currency", () => {
+    expect(parseConversionLink({ amount: "1000000", from: "TRL", to: "USD,HRK" })).toEqual({ amount: null, from: null, to: ["USD", "EUR"] });
+  });
+
+  it("drops malformed parameters", () => {
+    expect(parseConversionLink({ amount: "1e5", from: "XXX1", to: "USD,nope" })).toEqual({ amount: null, from: null, to: ["USD"] });
+  });
+});
@@ -0,0 +1,32 @@
+import currencyService, { CurrencyData } from "../currencyService";
+
+jest.mock("@react-native-async-storage/async-storage", () => require("@react-native-async-storage/async-storage/jest/async-storage-mock"));
+
+const snapshot: CurrencyData = {
+  base: "EUR",
+  rates: { EUR: 1, USD: 1.08, GBP: 0.85 },
+  provider: "exchangerate-api",
+  publishedAt: 0,
+  fetchedAt: 0,
+  source: "network",
+};
+
+describe("conversion into currencies the snapshot lacks", () => {
+  it("gives no amount, so the row shows as unavailable", () => {
+    expect(currencyService.hasRate(snapshot, "BTC")).toBe(false);
+    expect(currencyService.convertCurrency(100, "EUR", "BTC", snapshot)).toBeNull();
+    expect(currencyService.convertCurrency(100, "BTC", "USD", snapshot)).toBeNull();
+  });
+
+  it("still converts between the currencies it has, through its base", () => {
+    expect(currencyService.convertCurrency(100, "EUR", "USD", snapshot)?.round(2).stripTrailingZeros().toString()).toBe("108");
+    expect(currencyService.convertCurrency(85, "GBP", "USD", snapshot)?.round(2).stripTrailingZeros().toString()).toBe("108");
+  });
+});
+
+describe("rate formatting", () => {
+  it("keeps significant digits for rates too small for fixed decimals", () => {
+    const formatted = currencyService.formatRate(0.0000152, "BTC");
+    expect(formatted).toMatch(/0\.0000152/);
+  });
+});
@@ -0,0 +1,94 @@
+import { Decimal } from "../decimal";
+
+describe("Decimal", () => {
+  describe("parse and from", () => {
+    it("keeps the written digits", () => {
+      expect(Decimal.parse("12.50").toString()).toBe("12.50");
+      expect(Decimal.parse("-0.001").toString()).toBe("-0.001");
+      expect(Decimal.parse(".5").toString()).toBe("0.5");
+      expect(Decimal.parse("1.5e3").toString()).toBe("1500");
+      expect(Decimal.parse("25e-3").toString()).toBe("0.025");
+    });
+
+    it("rejects text that is not a number", () => {
+      expect(() => Decimal.parse("")).toThrow();
+      expect(() => Decimal.parse("abc")).toThrow();
+      expect(() => Decimal.parse("1.2.3")).toThrow();
+    });
+
+    it("converts numbers through their shortest representation", () => {
+      expect(Decimal.from(0.1).toString()).toBe("0.1");
+      expect(Decimal.from(-42).toString()).toBe("-42");
+      expect(() => Decimal.from(Number.NaN)).toThrow();
+      expect(() => Decimal.from(Infinity)).toThrow();
+    });
+  });
+
+  describe("arithmetic", () => {
+    it("adds exactly", () => {
+      expect(Decimal.from("0.1").add("0.2").toString()).toBe("0.3");
+      expect(Decimal.from("0.1").add("0.2").equals("0.3")).toBe(true);
+      expect(Decimal.from("-1.25").add("0.5").toString()).toBe("-0.75");
+    });
+
+    it("subtracts exactly", () => {
+      expect(Decimal.from("0.3").subtract("0.1").toString()).toBe("0.2");
+      expect(Decimal.from("1").subtract("2.5").toString()).toBe("-1.5");
+    });
+
+    it("multiplies exactly", () => {
+      expect(Decimal.from("1.1").multiply("1.1").toString()).toBe("1.21");
+      expect(Decimal.from("-0.5").multiply("4").equals(-2)).toBe(true);
+      expect(Decimal.from("19.99").multiply("3").toString()).toBe("59.97");
+    });
+
+    it("divides to the requested scale", () => {
+      expect(Decimal.from("1").divide("4").equals("0.25")).toBe(true);
+      expect(Decimal.from("1").divide("3", 4).toString()).toBe("0.3333");
+      expect(Decimal.from("2").divide("3", 4).toString()).toBe("0.6667");
+      expect(Decimal.from("-2").divide("3", 4).toString()).toBe("-0.6667");
+      expect(Decimal.from("10").divide("-4", 1).toString()).toBe("-2.5");
+    });
+
+    it("refuses to divide by zero", () => {
+      expect(() => Decimal.from("1").divide("0")).toThrow("Division by zero");
+    });
+  });
+
+  describe("stripTrailingZeros", () => {
+    it("drops zeros after the point only", () => {
+      expect(Decimal.from("1").divide("4").stripTrailingZeros().toString()).toBe("0.25");
+      expect(Decimal.parse("400.000").stripTrailingZeros().toString()).toBe("400");
+      expect(Decimal.parse("1200").stripTrailingZeros().toString()).toBe("1200");
+      expect(Decimal.parse("-0.50").stripTrailingZeros().toString()).toBe("-0.5");
+    });
+  });
+
+  describe("round", () => {
+    it("rounds half to even", () => {
+      expect(Decimal.from("2.5").round(0, "half-even").toString()).toBe("2");
+      expect(Decimal.from("3.5").round(0, "half-even").toString()).toBe("4");
+      expect(Decimal.from("-2.5").round(0, "half-even").toString()).toBe("-2");
+      expect(Decimal.from("-3.5").round(0, "half-even").toString()).toBe("-4");
+      expect(Decimal.from("1.005").round(2, "half-even").toString()).toBe("1.00");
+      expect(Decimal.from("2.51").round(0, "half-even").toString()).toBe("3");
+    });
+
+    it("rounds half away from zero", () => {
+      expect(Decimal.from("2.5").round(0, "half-up").toString()).toBe("3");
+      expect(Decimal.from("-2.5").round(0, "half-up").toString()).toBe("-3");
+      expect(Decimal.from("1.005").round(2, "half-up").toString()).toBe("1.01");
+      expect(Decimal.from("-2.49").round(0, "half-up").toString()).toBe("-2");
+    });
+
+    it("truncates toward zero", () => {
+      expect(Decimal.from("2.99").round(0, "truncate").toString()).toBe("2");
+      expect(Decimal.from("-2.99").round(0, "truncate").toString()).toBe("-2");
+      expect(Decimal.from("1.239").round(2, "truncate").toString()).toBe("1.23");
+    });
+
+    it("leaves values that already fit unchanged", () => {
+      expect(Decimal.from("1.5").round(2).toString()).toBe("1.5");
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { evaluateExpression, tryEvaluateExpression } from "../expression";
+
+const evaluate = (input: string) => evaluateExpression(input).toString();
+
+describe("evaluateExpression", () => {
+  it("follows operator precedence and parentheses", () => {
+    expect(evaluate("2 + 3 * 4")).toBe("14");
+    expect(evaluate("(2 + 3) * 4")).toBe("20");
+    expect(evaluate("-5 + 2")).toBe("-3");
+  });
+
+  it("returns normalized results for division and percentages", () => {
+    expect(evaluate("1200/3")).toBe("400");
+    expect(evaluate("10/4")).toBe("2.5");
+    expect(evaluate("1/3")).toBe("0.3333333333");
+    expect(evaluate("200 + 10%")).toBe("220");
+    expect(evaluate("50%")).toBe("0.5");
+    expect(evaluate("12.50")).toBe("12.5");
+  });
+
+  it("reads the locale's decimal separator", () => {
+    expect(evaluateExpression("1.234,5 + 0,5", { decimalSeparator: "," }).toString()).toBe("1235");
+  });
+
+  it("rejects malformed input", () => {
+    expect(() => evaluateExpression("1 / 0")).toThrow("Division by zero");
+    expect(tryEvaluateExpression("2 +")).toBeNull();
+    expect(tryEvaluateExpression("2 +", { allowIncomplete: true })?.toString()).toBe("2");
+  });
+});
@@ -0,0 +1,15 @@
+import { Decimal } from "../decimal";
+import { tryEvaluateExpression } from "../expression";
+import { toAmountInput } from "../formatting";
+
+describe("amount input text", () => {
+  it("writes amounts back in the separator the field is evaluated with", () => {
+    for (const decimalSeparator of [".", ","] as const) {
+      for (const amount of ["0.015", "12.345", "1000"]) {
+        const text = toAmountInput(Decimal.parse(amount), decimalSeparator);
+        expect(tryEvaluateExpression(text, { decimalSeparator })?.toString()).toBe(amount);
+      }
+    }
+    expect(toAmountInput(Decimal.parse("12.345"), ",")).toBe("12,345");
+  });
+});
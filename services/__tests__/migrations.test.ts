@@ -0,0 +1,25 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { isCurrencyData } from "../schemas";
+import storage from "../storage";
+
+jest.mock("@react-native-async-storage/async-storage", () => require("@react-native-async-storage/async-storage/jest/async-storage-mock"));
+
+describe("storage migrations", () => {
+  it("keeps legacy rate caches, upgraded to the current snapshot shape", async () => {
+    const timestamp = Date.UTC(2024, 5, 1);
+    await AsyncStorage.setItem("currency_rates_cache_EUR", JSON.stringify({ base: "EUR", rates: { USD: 1.08, GBP: 0.85 }, timestamp }));
+
+    await storage.ready();
+
+    expect(await AsyncStorage.getItem("currency_rates_cache_EUR")).toBeNull();
+    expect(await storage.get("rates:EUR", isCurrencyData)).toEqual({
+      base: "EUR",
+      rates: { USD: 1.08, GBP: 0.85 },
+      provider: "exchangerate-api",
+      publishedAt: timestamp,
+      fetchedAt: timestamp,
+      source: "cache",
+    });
+  });
+});
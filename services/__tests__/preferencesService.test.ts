@@ -0,0 +1,14 @@
+import preferencesService from "../preferencesService";
+
+jest.mock("@react-native-async-storage/async-storage", () => require("@react-native-async-storage/async-storage/jest/async-storage-mock"));
+
+describe("preferences", () => {
+  it("returns updated preferences from get and load", async () => {
+    expect((await preferencesService.get()).provider).toBe("auto");
+
+    await preferencesService.update({ provider: "ecb", customProviderUrl: "https://rates.example.com" });
+
+    expect(await preferencesService.get()).toMatchObject({ provider: "ecb", customProviderUrl: "https://rates.example.com" });
+    expect((await preferencesService.load()).provider).toBe("ecb");
+  });
+});
@@ -0,0 +1,51 @@
+import { normalizePriceNumber, parsePrice } from "../priceParser";
+
+function parse(text: string) {
+  const price = parsePrice(text, { locale: "en-US" });
+  return price && { amount: price.amount.toString(), currency: price.currency };
+}
+
+describe("parsePrice", () => {
+  it("reads thousands grouping in either convention", () => {
+    expect(parse("Total: $1,234.56")).toEqual({ amount: "1234.56", currency: "USD" });
+    expect(parse("1.234,50 €")).toEqual({ amount: "1234.50", currency: "EUR" });
+    expect(parse("12 800 SEK")).toEqual({ amount: "12800", currency: "SEK" });
+    expect(parse("$1,234")).toEqual({ amount: "1234", currency: "USD" });
+  });
+
+  it("does not cut off fractions longer than three digits", () => {
+    expect(parse("$12.3456")).toEqual({ amount: "12.3456", currency: "USD" });
+    expect(parse("EUR 1234.5678")).toEqual({ amount: "1234.5678", currency: "EUR" });
+  });
+
+  it("keeps every fraction digit of crypto amounts", () => {
+    expect(parse("ETH 0.123456")).toEqual({ amount: "0.123456", currency: "ETH" });
+    expect(parse("BTC 0.00123")).toEqual({ amount: "0.00123", currency: "BTC" });
+    expect(parse("0.00000001 BTC")).toEqual({ amount: "0.00000001", currency: "BTC" });
+    expect(parse("Send 1,250.123456 USDT")).toEqual({ amount: "1250.123456", currency: "USDT" });
+  });
+
+  it("prefers a price near a total keyword", () => {
+    expect(parse("Subtotal 3 items, Total: €19,99")).toEqual({ amount: "19.99", currency: "EUR" });
+  });
+
+  it("falls back to a bare number without a currency", () => {
+    expect(parse("about 42.5 of them")).toEqual({ amount: "42.5", currency: null });
+    expect(parse("nothing here")).toBeNull();
+  });
+
+  it("does not read amounts in withdrawn currencies as their successor", () => {
+    expect(parse("TRL 1000000")).toBeNull();
+    expect(parse("450 HRK")).toBeNull();
+    expect(parse("was 450 HRK, now €59.70")).toEqual({ amount: "59.70", currency: "EUR" });
+  });
+});
+
+describe("normalizePriceNumber", () => {
+  it("tells grouping from decimals", () => {
+    expect(normalizePriceNumber("1,234")).toBe("1234");
+    expect(normalizePriceNumber("12,5")).toBe("12.5");
+    expect(normalizePriceNumber("0.015")).toBe("0.015");
+    expect(normalizePriceNumber("1.234.567,89")).toBe("1234567.89");
+  });
+});
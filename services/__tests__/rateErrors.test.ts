@@ -0,0 +1,22 @@
+import { HttpError, httpErrorFor, isRetryable, isRetryableNow, RateLimitedError, retryAfterMs } from "../rateErrors";
+
+function rateLimited(retryAfter?: string) {
+  return httpErrorFor(new Response(null, { status: 429, headers: retryAfter ? { "Retry-After": retryAfter } : {} }));
+}
+
+describe("rate limits", () => {
+  it("reads Retry-After as seconds or as an HTTP date", () => {
+    expect(retryAfterMs(rateLimited("120"))).toBe(120_000);
+    expect(retryAfterMs(rateLimited(new Date(Date.now() + 90_000).toUTCString()))).toBeGreaterThanOrEqual(88_000);
+    expect(retryAfterMs(rateLimited())).toBeNull();
+    expect(retryAfterMs(rateLimited("soon"))).toBeNull();
+  });
+
+  it("is retried by a later refresh, not within the same one", () => {
+    const error = new RateLimitedError(60);
+    expect(isRetryable(error)).toBe(true);
+    expect(isRetryableNow(error)).toBe(false);
+    expect(isRetryableNow(new HttpError(503))).toBe(true);
+    expect(isRetryableNow(new HttpError(404))).toBe(false);
+  });
+});
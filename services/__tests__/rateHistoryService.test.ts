@@ -0,0 +1,38 @@
+import rateHistoryService from "../rateHistoryService";
+import storage from "../storage";
+
+jest.mock("@react-native-async-storage/async-storage", () => require("@react-native-async-storage/async-storage/jest/async-storage-mock"));
+
+describe("rate history recording", () => {
+  it("only extends pairs that are already tracked", async () => {
+    await storage.set("history:EUR_USD", [{ date: "2024-05-31", rate: 1.08 }]);
+
+    await rateHistoryService.recordSnapshot({
+      base: "EUR",
+      rates: { EUR: 1, USD: 1.09, GBP: 0.85, JPY: 169.5 },
+      provider: "exchangerate-api",
+      publishedAt: Date.UTC(2024, 5, 3),
+      fetchedAt: Date.UTC(2024, 5, 3),
+      source: "network",
+    });
+
+    expect(await rateHistoryService.getStoredSeries("EUR", "USD")).toEqual([
+      { date: "2024-05-31", rate: 1.08 },
+      { date: "2024-06-03", rate: 1.09 },
+    ]);
+    expect(await storage.keys("history:")).toEqual(["history:EUR_USD"]);
+  });
+});
+
+describe("rate history series", () => {
+  it("backfills a tracked pair whose last point has fallen behind", async () => {
+    const start = new Date();
+    start.setUTCDate(start.getUTCDate() - 60);
+    await storage.set("history:GBP_JPY", [{ date: start.toISOString().slice(0, 10), rate: 190 }]);
+    const backfill = jest.spyOn(rateHistoryService, "backfill").mockResolvedValue([]);
+
+    await rateHistoryService.getSeries("GBP", "JPY", "7d");
+
+    expect(backfill).toHaveBeenCalledWith("GBP", "JPY", expect.any(String));
+  });
+});
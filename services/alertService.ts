@@ -0,0 +1,222 @@
+import currencyService from "./currencyService";
+import { isAlertTriggerArray, isRateAlertArray } from "./schemas";
+import storage from "./storage";
+
+export type AlertCondition =
+  | { type: "above"; threshold: number }
+  | { type: "below"; threshold: number }
+  // Move of at least `percent` in either direction within a day
+  | { type: "change"; percent: number };
+
+export interface RateAlert {
+  id: string;
+  base: string;
+  quote: string;
+  condition: AlertCondition;
+  paused: boolean;
+  createdAt: number;
+  // Rate seen on the previous check, used to fire only when a threshold is crossed
+  lastRate?: number;
+  // Start of the current one-day window for change alerts
+  referenceRate?: number;
+  referenceAt?: number;
+  lastTriggeredAt?: number;
+}
+
+export interface AlertTrigger {
+  id: string;
+  alertId: string;
+  base: string;
+  quote: string;
+  rate: number;
+  message: string;
+  triggeredAt: number;
+}
+
+const ALERTS_KEY = "alerts";
+const ALERT_LOG_KEY = "alert_log";
+const MAX_LOG_ENTRIES = 200;
+const CHANGE_WINDOW = 24 * 60 * 60 * 1000; // 1 day
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function describeCondition(alert: Pick<RateAlert, "base" | "quote" | "condition">): string {
+  const pair = `${alert.base}/${alert.quote}`;
+  switch (alert.condition.type) {
+    case "above":
+      return `${pair} above ${alert.condition.threshold}`;
+    case "below":
+      return `${pair} below ${alert.condition.threshold}`;
+    case "change":
+      return `${pair} moves ${alert.condition.percent}% in a day`;
+  }
+}
+
+class AlertService {
+  async getAlerts(): Promise<RateAlert[]> {
+    try {
+      return (await storage.get(ALERTS_KEY, isRateAlertArray)) ?? [];
+    } catch (error) {
+      console.error("Error reading rate alerts:", error);
+      return [];
+    }
+  }
+
+  async setAlerts(alerts: RateAlert[]): Promise<void> {
+    try {
+      await storage.set(ALERTS_KEY, alerts);
+    } catch (error) {
+      console.error("Error saving rate alerts:", error);
+    }
+  }
+
+  async createAlert(base: string, quote: string, condition: AlertCondition): Promise<RateAlert> {
+    const alert: RateAlert = {
+      id: createId(),
+      base,
+      quote,
+      condition,
+      paused: false,
+      createdAt: Date.now(),
+    };
+    const alerts = await this.getAlerts();
+    await this.setAlerts([...alerts, alert]);
+    return alert;
+  }
+
+  async setAlertPaused(id: string, paused: boolean): Promise<void> {
+    const alerts = await this.getAlerts();
+    await this.setAlerts(alerts.map(alert => (alert.id === id ? { ...alert, paused } : alert)));
+  }
+
+  async deleteAlert(id: string): Promise<void> {
+    const alerts = await this.getAlerts();
+    await this.setAlerts(alerts.filter(alert => alert.id !== id));
+  }
+
+  async getTriggerLog(): Promise<AlertTrigger[]> {
+    try {
+      return (await storage.get(ALERT_LOG_KEY, isAlertTriggerArray)) ?? [];
+    } catch (error) {
+      console.error("Error reading alert log:", error);
+      return [];
+    }
+  }
+
+  async clearTriggerLog(): Promise<void> {
+    try {
+      await storage.remove(ALERT_LOG_KEY);
+    } catch (error) {
+      console.error("Error clearing alert log:", error);
+    }
+  }
+
+  private async appendToLog(triggers: AlertTrigger[]): Promise<void> {
+    if (triggers.length === 0) {
+      return;
+    }
+    const log = await this.getTriggerLog();
+    try {
+      await storage.set(ALERT_LOG_KEY, [...triggers, ...log].slice(0, MAX_LOG_ENTRIES));
+    } catch (error) {
+      console.error("Error saving alert log:", error);
+    }
+  }
+
+  // Advances one alert to the new rate and reports whether it fired
+  private evaluate(alert: RateAlert, rate: number, now: number): { alert: RateAlert; message: string | null } {
+    const { condition } = alert;
+    const next: RateAlert = { ...alert, lastRate: rate };
+    // Significant digits rather than fixed decimals, so crypto quotes do not read as 0.0000
+    const shownRate = currencyService.formatRate(rate, alert.quote);
+    let message: string | null = null;
+
+    if (condition.type === "above" || condition.type === "below") {
+      const isPast = (value: number) => (condition.type === "above" ? value > condition.threshold : value < condition.threshold);
+      if (isPast(rate) && (alert.lastRate === undefined || !isPast(alert.lastRate))) {
+        message = `${alert.base}/${alert.quote} is ${condition.type} ${condition.threshold} at ${shownRate}`;
+      }
+    } else {
+      if (alert.referenceRate === undefined || alert.referenceAt === undefined || now - alert.referenceAt >= CHANGE_WINDOW) {
+        next.referenceRate = rate;
+        next.referenceAt = now;
+      } else {
+        const change = ((rate - alert.referenceRate) / alert.referenceRate) * 100;
+        const alreadyFired = alert.lastTriggeredAt !== undefined && alert.lastTriggeredAt >= alert.referenceAt;
+        if (Math.abs(change) >= condition.percent && !alreadyFired) {
+          message = `${alert.base}/${alert.quote} moved ${change >= 0 ? "+" : ""}${change.toFixed(2)}% to ${shownRate}`;
+        }
+      }
+    }
+
+    if (message) {
+      next.lastTriggeredAt = now;
+    }
+    return { alert: next, message };
+  }
+
+  // Fetches current rates for every active alert and returns the ones that fired
+  async checkAlerts(): Promise<AlertTrigger[]> {
+    const alerts = await this.getAlerts();
+    const now = Date.now();
+    const triggers: AlertTrigger[] = [];
+    const checked = new Map<string, RateAlert>();
+
+    for (const alert of alerts) {
+      if (alert.paused) {
+        continue;
+      }
+
+      try {
+        const data = await currencyService.getExchangeRates(alert.base);
+        const crossRate = currencyService.getLiveCrossRate(alert.base, alert.quote, data);
+        if (!crossRate) {
+          continue;
+        }
+
+        const rate = crossRate.rate.toNumber();
+        const result = this.evaluate(alert, rate, now);
+        checked.set(alert.id, result.alert);
+        if (result.message) {
+          triggers.push({
+            id: createId(),
+            alertId: alert.id,
+            base: alert.base,
+            quote: alert.quote,
+            rate,
+            message: result.message,
+            triggeredAt: now,
+          });
+        }
+      } catch (error) {
+        console.error(`Error checking alert ${alert.id}:`, error);
+      }
+    }
+
+    // The rate requests take a while and the user may have added, paused or deleted alerts in
+    // the meantime, so only the check state is written back, onto the alerts as they are now
+    const current = await this.getAlerts();
+    await this.setAlerts(
+      current.map(alert => {
+        const result = checked.get(alert.id);
+        return result
+          ? {
+              ...alert,
+              lastRate: result.lastRate,
+              referenceRate: result.referenceRate,
+              referenceAt: result.referenceAt,
+              lastTriggeredAt: result.lastTriggeredAt,
+            }
+          : alert;
+      })
+    );
+    // Nothing is reported for alerts deleted while they were being checked
+    const fired = triggers.filter(trigger => current.some(alert => alert.id === trigger.alertId));
+    await this.appendToLog(fired);
+    return fired;
+  }
+}
+
+export default new AlertService();
@@ -0,0 +1,81 @@
+import * as BackgroundTask from "expo-background-task";
+import * as Notifications from "expo-notifications";
+import * as TaskManager from "expo-task-manager";
+import { Platform } from "react-native";
+import alertService, { AlertTrigger } from "./alertService";
+
+export const RATE_ALERT_TASK = "rate-alert-check";
+const CHECK_INTERVAL_MINUTES = 60;
+
+const isSupported = Platform.OS !== "web";
+
+export async function notifyTriggers(triggers: AlertTrigger[]): Promise<void> {
+  if (!isSupported) {
+    return;
+  }
+
+  for (const trigger of triggers) {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: "Rate alert",
+        body: trigger.message,
+        data: { alertId: trigger.alertId, base: trigger.base, quote: trigger.quote },
+      },
+      trigger: null,
+    });
+  }
+}
+
+// Runs a check in the foreground and posts notifications for anything that fired
+export async function runAlertCheck(): Promise<AlertTrigger[]> {
+  const triggers = await alertService.checkAlerts();
+  await notifyTriggers(triggers);
+  return triggers;
+}
+
+// Task definitions must run at module scope so the OS can wake the app into them
+if (isSupported) {
+  TaskManager.defineTask(RATE_ALERT_TASK, async () => {
+    try {
+      await runAlertCheck();
+      return BackgroundTask.BackgroundTaskResult.Success;
+    } catch (error) {
+      console.error("Error running rate alert task:", error);
+      return BackgroundTask.BackgroundTaskResult.Failed;
+    }
+  });
+}
+
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!isSupported) {
+    return false;
+  }
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) {
+    return true;
+  }
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+// Registers the periodic check while any alert is active and removes it otherwise
+export async function syncAlertTaskRegistration(): Promise<void> {
+  if (!isSupported) {
+    return;
+  }
+
+  try {
+    const alerts = await alertService.getAlerts();
+    const hasActiveAlerts = alerts.some(alert => !alert.paused);
+    const isRegistered = await TaskManager.isTaskRegisteredAsync(RATE_ALERT_TASK);
+
+    if (hasActiveAlerts && !isRegistered) {
+      await BackgroundTask.registerTaskAsync(RATE_ALERT_TASK, { minimumInterval: CHECK_INTERVAL_MINUTES });
+    } else if (!hasActiveAlerts && isRegistered) {
+      await BackgroundTask.unregisterTaskAsync(RATE_ALERT_TASK);
+    }
+  } catch (error) {
+    console.error("Error registering rate alert task:", error);
+  }
+}
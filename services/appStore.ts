@@ -0,0 +1,237 @@
+import currencyService, { CurrencyData } from "./currencyService";
+import { backoffDelay, isAbortError } from "./fetchPipeline";
+import { describeRateError, isRetryable, retryAfterMs } from "./rateErrors";
+
+// What screens know about the rates for one base currency
+export interface RatesState {
+  data: CurrencyData | null;
+  // Fetching with nothing to show yet
+  loading: boolean;
+  // Fetching newer rates while `data` stays on screen
+  refreshing: boolean;
+  error: string | null;
+}
+
+interface StoreState {
+  // Null until the saved base currency has been read
+  baseCurrency: string | null;
+  rates: { [base: string]: RatesState };
+}
+
+type StoreListener = () => void;
+
+const IDLE_RATES: RatesState = { data: null, loading: false, refreshing: false, error: null };
+const OFFLINE_ERROR = "You're offline and no saved rates are available yet.";
+// Background retries after a failed refresh: about 30 seconds at first, at most every 15 minutes
+const RETRY_BACKOFF = { baseDelayMs: 30 * 1000, maxDelayMs: 15 * 60 * 1000 };
+
+// App-wide source of truth for the base currency and loaded rates. State is replaced, never
+// mutated, so hooks can hand out the same object until something actually changes.
+class AppStore {
+  private state: StoreState = { baseCurrency: null, rates: {} };
+  private listeners = new Set<StoreListener>();
+  // One request per base at a time; later callers share it
+  private ratesInFlight = new Map<string, Promise<CurrencyData | null>>();
+  private controllers = new Map<string, AbortController>();
+  // How many screens show each base
+  private watchers = new Map<string, number>();
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Consecutive failed refreshes per base, driving the retry backoff
+  private failures = new Map<string, number>();
+  private online = true;
+  private baseLoad: Promise<string> | null = null;
+
+  // Bound so it can be passed straight to useSyncExternalStore
+  subscribe = (listener: StoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getBaseCurrency(): string | null {
+    return this.state.baseCurrency;
+  }
+
+  // Rates loaded for `base`, else those of another base whose snapshot can triangulate it,
+  // so switching to a currency already quoted needs no reload
+  getRates(base: string): RatesState {
+    const own = this.state.rates[base];
+    if (own) {
+      return own;
+    }
+    return Object.values(this.state.rates).find(entry => entry.data && currencyService.hasRate(entry.data, base)) ?? IDLE_RATES;
+  }
+
+  loadBaseCurrency(): Promise<string> {
+    if (!this.baseLoad) {
+      this.baseLoad = currencyService.getBaseCurrency().then(baseCurrency => {
+        // A base picked while the saved one was being read wins
+        if (this.state.baseCurrency === null) {
+          this.setState({ baseCurrency });
+        }
+        return this.state.baseCurrency ?? baseCurrency;
+      });
+    }
+    return this.baseLoad;
+  }
+
+  async setBaseCurrency(currency: string): Promise<void> {
+    if (currency === this.state.baseCurrency) {
+      return;
+    }
+    this.setState({ baseCurrency: currency });
+    await currencyService.setBaseCurrency(currency);
+  }
+
+  // Keeps rates for `base` loaded, and retried after failures, while something on screen shows
+  // them. The returned function lets go; once nothing watches a base its request is cancelled.
+  watchRates(base: string): () => void {
+    this.watchers.set(base, (this.watchers.get(base) ?? 0) + 1);
+    this.ensureRates(base);
+    return () => {
+      const remaining = (this.watchers.get(base) ?? 1) - 1;
+      if (remaining > 0) {
+        this.watchers.set(base, remaining);
+        return;
+      }
+      this.watchers.delete(base);
+      this.clearRetry(base);
+      this.controllers.get(base)?.abort();
+    };
+  }
+
+  // Loads rates for `base` unless fresh ones are already available or on their way
+  ensureRates(base: string): void {
+    const current = this.getRates(base);
+    if (current.loading || current.refreshing) {
+      return;
+    }
+    if (!current.data || currencyService.isStale(current.data)) {
+      this.loadRates(base);
+    }
+  }
+
+  // Stale-while-revalidate: whatever copy is on the device is shown straight away and newer rates
+  // are fetched behind it. Resolves to the rates shown afterwards, null when there are none; a
+  // failure is kept in the store for every subscriber and retried later.
+  loadRates(base: string): Promise<CurrencyData | null> {
+    const inFlight = this.ratesInFlight.get(base);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    this.clearRetry(base);
+    const controller = new AbortController();
+    const request = this.revalidate(base, controller.signal).finally(() => {
+      this.ratesInFlight.delete(base);
+      this.controllers.delete(base);
+    });
+    this.ratesInFlight.set(base, request);
+    this.controllers.set(base, controller);
+    return request;
+  }
+
+  // Nothing is fetched while offline; coming back online revalidates whatever is on screen at once
+  setOnline(online: boolean): void {
+    if (online === this.online) {
+      return;
+    }
+    this.online = online;
+    this.failures.clear();
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    if (!online) {
+      return;
+    }
+    for (const base of this.watchers.keys()) {
+      const current = this.getRates(base);
+      if (!current.data || current.error || currencyService.isStale(current.data)) {
+        this.loadRates(base);
+      }
+    }
+  }
+
+  // Forgets every loaded rate table, e.g. after the cache was cleared, so nothing deleted stays on
+  // screen. Requests in flight are cancelled first and whatever is still watched is fetched again.
+  async clearRates(): Promise<void> {
+    this.controllers.forEach(controller => controller.abort());
+    await Promise.allSettled(this.ratesInFlight.values());
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    this.failures.clear();
+    this.setState({ rates: {} });
+    for (const base of this.watchers.keys()) {
+      this.loadRates(base);
+    }
+  }
+
+  private async revalidate(base: string, signal: AbortSignal): Promise<CurrencyData | null> {
+    let data = this.getRates(base).data;
+    if (!data) {
+      this.setRates(base, { data: null, loading: true, refreshing: false, error: null });
+      data = await currencyService.getCachedExchangeRates(base);
+      if (data?.source === "cache") {
+        this.setRates(base, { data, loading: false, refreshing: false, error: null });
+        return data;
+      }
+    }
+
+    if (!this.online) {
+      this.setRates(base, { data, loading: false, refreshing: false, error: data ? null : OFFLINE_ERROR });
+      return data;
+    }
+
+    this.setRates(base, { data, loading: !data, refreshing: !!data, error: null });
+    try {
+      // The cached copy is already on screen, so a failure is reported rather than papered over
+      const fresh = await currencyService.getExchangeRates(base, { signal, fallbackToCache: false });
+      this.setRates(base, { data: fresh, loading: false, refreshing: false, error: null });
+      this.failures.delete(base);
+      return fresh;
+    } catch (error) {
+      if (isAbortError(error)) {
+        this.setRates(base, { ...this.getRates(base), loading: false, refreshing: false });
+        return data;
+      }
+      console.error("Error loading exchange rates:", error);
+      this.setRates(base, { data, loading: false, refreshing: false, error: describeRateError(error) });
+      if (isRetryable(error)) {
+        this.scheduleRetry(base, error);
+      }
+      return data;
+    }
+  }
+
+  // Tries again later while the base is still on screen, waiting longer after each failure and at
+  // least as long as a rate-limiting provider asked
+  private scheduleRetry(base: string, error: unknown): void {
+    if (!this.online || !this.watchers.has(base)) {
+      return;
+    }
+    const failures = (this.failures.get(base) ?? 0) + 1;
+    this.failures.set(base, failures);
+    this.clearRetry(base);
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(base);
+      this.loadRates(base);
+    }, Math.max(backoffDelay(failures - 1, RETRY_BACKOFF), retryAfterMs(error) ?? 0));
+    this.retryTimers.set(base, timer);
+  }
+
+  private clearRetry(base: string): void {
+    clearTimeout(this.retryTimers.get(base));
+    this.retryTimers.delete(base);
+  }
+
+  private setRates(base: string, rates: RatesState): void {
+    this.setState({ rates: { ...this.state.rates, [base]: rates } });
+  }
+
+  private setState(changes: Partial<StoreState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default new AppStore();
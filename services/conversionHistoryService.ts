@@ -0,0 +1,148 @@
+import { isConversionRecordArray } from "./schemas";
+import storage from "./storage";
+
+export interface ConversionRecord {
+  id: string;
+  // Decimal strings, so exported values match what was shown exactly
+  amount: string;
+  from: string;
+  to: string;
+  rate: string;
+  result: string;
+  // When the provider published the rates used for the conversion
+  rateTimestamp: number;
+  createdAt: number;
+  pinned: boolean;
+}
+
+export interface HistoryFilter {
+  // Free text: a currency code ("EUR"), a pair ("EUR/USD" or "EUR USD") or part of an amount
+  query?: string;
+  since?: number;
+  until?: number;
+  pinnedOnly?: boolean;
+}
+
+const HISTORY_KEY = "conversion_history";
+const MAX_RECORDS = 500;
+// A repeat of the latest conversion inside this window is not recorded again
+const DUPLICATE_WINDOW = 60 * 1000;
+
+const CSV_COLUMNS: (keyof ConversionRecord)[] = ["createdAt", "amount", "from", "to", "rate", "result", "rateTimestamp", "pinned"];
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function matchesQuery(record: ConversionRecord, query: string): boolean {
+  const terms = query
+    .toUpperCase()
+    .split(/[\s/]+/)
+    .filter(term => term.length > 0);
+
+  // Two codes are read as a pair in that direction
+  if (terms.length === 2 && terms.every(term => /^[A-Z]{3}$/.test(term))) {
+    return record.from === terms[0] && record.to === terms[1];
+  }
+
+  return terms.every(
+    term => record.from.includes(term) || record.to.includes(term) || record.amount.includes(term) || record.result.includes(term)
+  );
+}
+
+class ConversionHistoryService {
+  async getRecords(): Promise<ConversionRecord[]> {
+    try {
+      return (await storage.get(HISTORY_KEY, isConversionRecordArray)) ?? [];
+    } catch (error) {
+      console.error("Error reading conversion history:", error);
+      return [];
+    }
+  }
+
+  private async setRecords(records: ConversionRecord[]): Promise<void> {
+    try {
+      await storage.set(HISTORY_KEY, records);
+    } catch (error) {
+      console.error("Error saving conversion history:", error);
+    }
+  }
+
+  // Newest first; once full, the oldest unpinned records are dropped
+  async addRecords(entries: Omit<ConversionRecord, "id" | "createdAt" | "pinned">[]): Promise<void> {
+    const records = await this.getRecords();
+    const now = Date.now();
+    const added: ConversionRecord[] = entries
+      .filter(
+        entry =>
+          !records.some(
+            record =>
+              now - record.createdAt < DUPLICATE_WINDOW &&
+              record.from === entry.from &&
+              record.to === entry.to &&
+              record.amount === entry.amount
+          )
+      )
+      .map(entry => ({ ...entry, id: createId(), createdAt: now, pinned: false }));
+
+    if (added.length === 0) {
+      return;
+    }
+
+    const combined = [...added, ...records];
+    while (combined.length > MAX_RECORDS) {
+      const index = combined.map(record => record.pinned).lastIndexOf(false);
+      if (index < 0) {
+        break;
+      }
+      combined.splice(index, 1);
+    }
+    await this.setRecords(combined);
+  }
+
+  async setPinned(id: string, pinned: boolean): Promise<void> {
+    const records = await this.getRecords();
+    await this.setRecords(records.map(record => (record.id === id ? { ...record, pinned } : record)));
+  }
+
+  async deleteRecord(id: string): Promise<void> {
+    const records = await this.getRecords();
+    await this.setRecords(records.filter(record => record.id !== id));
+  }
+
+  async clearHistory(keepPinned: boolean = true): Promise<void> {
+    const records = await this.getRecords();
+    await this.setRecords(keepPinned ? records.filter(record => record.pinned) : []);
+  }
+
+  // Pinned records first, then newest first
+  async search(filter: HistoryFilter = {}): Promise<ConversionRecord[]> {
+    const records = await this.getRecords();
+    return records
+      .filter(record => !filter.pinnedOnly || record.pinned)
+      .filter(record => filter.since === undefined || record.createdAt >= filter.since)
+      .filter(record => filter.until === undefined || record.createdAt <= filter.until)
+      .filter(record => !filter.query || matchesQuery(record, filter.query))
+      .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt - a.createdAt);
+  }
+
+  toCsv(records: ConversionRecord[]): string {
+    const rows = records.map(record =>
+      CSV_COLUMNS.map(column => {
+        const value = record[column];
+        return escapeCsv(column === "createdAt" || column === "rateTimestamp" ? new Date(value as number).toISOString() : String(value));
+      }).join(",")
+    );
+    return [CSV_COLUMNS.join(","), ...rows].join("\n");
+  }
+
+  toJson(records: ConversionRecord[]): string {
+    return JSON.stringify(records, null, 2);
+  }
+}
+
+export default new ConversionHistoryService();
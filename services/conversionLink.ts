@@ -0,0 +1,67 @@
+import * as Linking from "expo-linking";
+import { isRetiredCurrencyCode, resolveCurrencyCode } from "../constants/currencies";
+import { Decimal } from "./decimal";
+
+export interface ConversionLink {
+  amount: Decimal | null;
+  from: string | null;
+  to: string[];
+}
+
+// Query parameters as expo-router hands them over; repeated keys arrive as arrays
+export interface ConversionLinkParams {
+  amount?: string | string[];
+  from?: string | string[];
+  to?: string | string[];
+}
+
+const LINK_PATH = "convert";
+// Plain decimals only; exponents and huge inputs are not worth honouring from a link
+const MAX_AMOUNT_DECIMALS = 10;
+const AMOUNT_PATTERN = new RegExp(`^\\d{1,15}(\\.\\d{1,${MAX_AMOUNT_DECIMALS}})?$`);
+const MAX_TARGETS = 20;
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Reads link parameters leniently: anything missing, malformed or unknown is dropped
+// rather than failing the whole link, so the converter opens with whatever was usable
+export function parseConversionLink(params: ConversionLinkParams): ConversionLink {
+  const rawFrom = first(params.from);
+  // The amount is in `from`, so a withdrawn code cannot stand in for its successor and the
+  // amount goes with it
+  const isRetiredFrom = rawFrom !== undefined && isRetiredCurrencyCode(rawFrom);
+  const from = rawFrom && !isRetiredFrom ? resolveCurrencyCode(rawFrom.trim()) : null;
+
+  const rawAmount = first(params.amount)?.trim().replace(",", ".");
+  const amount = rawAmount && !isRetiredFrom && AMOUNT_PATTERN.test(rawAmount) ? Decimal.parse(rawAmount) : null;
+
+  const rawTargets = (Array.isArray(params.to) ? params.to : params.to ? [params.to] : [])
+    .flatMap(value => value.split(","))
+    .map(code => resolveCurrencyCode(code.trim()))
+    .filter((code): code is string => code !== null && code !== from);
+  const to = [...new Set(rawTargets)].slice(0, MAX_TARGETS);
+
+  return { amount, from, to };
+}
+
+export function isEmptyConversionLink(link: ConversionLink): boolean {
+  return link.amount === null && link.from === null && link.to.length === 0;
+}
+
+// currencysnap://convert?amount=250&from=EUR&to=USD,GBP on native; the same path on the site when running on web.
+// The amount is written the way parseConversionLink accepts it, without trailing zeros.
+export function buildConversionLink(link: ConversionLink): string {
+  const queryParams: { [key: string]: string } = {};
+  if (link.amount) {
+    queryParams.amount = link.amount.round(MAX_AMOUNT_DECIMALS).stripTrailingZeros().toString();
+  }
+  if (link.from) {
+    queryParams.from = link.from;
+  }
+  if (link.to.length > 0) {
+    queryParams.to = link.to.join(",");
+  }
+  return Linking.createURL(LINK_PATH, { queryParams });
+}
@@ -0,0 +1,86 @@
+import { COUNTRY_NAMES } from "../constants/countries";
+import { getCurrencyInfo } from "../constants/currencies";
+
+export interface SearchableCurrency {
+  code: string;
+  name: string;
+  // Country names, so "japan" finds JPY and "france" finds EUR
+  countries: string[];
+}
+
+// Lower case without accents, so "colon" matches "Colón"
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+}
+
+// Whether every character of the query appears in the text in order ("swfr" in "swiss franc")
+function isSubsequence(query: string, text: string): boolean {
+  let position = 0;
+  for (const char of text) {
+    if (char === query[position]) {
+      position++;
+      if (position === query.length) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+// Score of the best match of the query against one piece of text, 0 for none
+function scoreText(query: string, text: string, weight: number): number {
+  if (text === query) {
+    return weight + 3;
+  }
+  if (text.startsWith(query)) {
+    return weight + 2;
+  }
+  if (text.split(/[\s\-()]+/).some(word => word.startsWith(query))) {
+    return weight + 1;
+  }
+  return text.includes(query) ? weight : 0;
+}
+
+// Catalog entry for a code; codes outside the catalog (custom currencies) are described by the caller
+export function describeCurrency(code: string, name?: string): SearchableCurrency {
+  const info = getCurrencyInfo(code);
+  return {
+    code,
+    name: name ?? info?.name ?? code,
+    countries: (info?.countries ?? []).map(country => COUNTRY_NAMES[country] ?? country),
+  };
+}
+
+// Ranks a currency against a query: code matches beat name matches, which beat country matches,
+// and an in-order scattering of the query's letters through the code or name is the weakest match
+export function scoreCurrency(query: string, currency: SearchableCurrency): number {
+  const normalizedQuery = normalize(query);
+  if (!normalizedQuery) {
+    return 0;
+  }
+
+  const code = normalize(currency.code);
+  const name = normalize(currency.name);
+  const score = Math.max(
+    scoreText(normalizedQuery, code, 40),
+    scoreText(normalizedQuery, name, 30),
+    ...currency.countries.map(country => scoreText(normalizedQuery, normalize(country), 20))
+  );
+  if (score > 0) {
+    return score;
+  }
+  return isSubsequence(normalizedQuery, code) || isSubsequence(normalizedQuery, name) ? 10 : 0;
+}
+
+// Currencies matching the query, best match first and alphabetical among equals
+export function searchCurrencies(query: string, currencies: SearchableCurrency[]): SearchableCurrency[] {
+  return currencies
+    .map(currency => ({ currency, score: scoreCurrency(query, currency) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.currency.code.localeCompare(b.currency.code))
+    .map(result => result.currency);
+}
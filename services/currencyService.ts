@@ -1,153 +1,490 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ASSET_CODES, CURRENCY_CODES, getAssetClass, getCurrencyInfo, resolveCurrencyCode } from "../constants/currencies";
+import { Decimal, RoundingMode } from "./decimal";
+import { isAbortError, SharedRequests, withRetry } from "./fetchPipeline";
+import { isRateError, isRetryableNow, MalformedPayloadError, OfflineError, pickRateError } from "./rateErrors";
+import { getFixtureServerUrl, isFixtureMode } from "./fixtureMode";
+import { formatMoney, getDeviceLocale, getMinorUnits, MoneyFormatOptions } from "./formatting";
+import preferencesService from "./preferencesService";
+import rateHistoryService from "./rateHistoryService";
+import rateOverrideService from "./rateOverrideService";
+import { clearRateSnapshots, loadRateSnapshot, saveRateSnapshot } from "./rateSnapshotStore";
+import {
+  CustomUrlProvider,
+  DEFAULT_ASSET_PROVIDERS,
+  DEFAULT_PROVIDERS,
+  FixtureProvider,
+  ProviderRates,
+  RateProvider,
+  RateProviderId,
+} from "./rateProviders";
+import { isCurrencyCode, isCurrencyData, isStringArray } from "./schemas";
+import storage from "./storage";
+import watchlistService from "./watchlistService";
 
+// Units of each currency or asset per one unit of the snapshot's base
 export interface ExchangeRates {
   [currency: string]: number;
 }
 
+// Where a snapshot handed out by getExchangeRates came from: fetched just now, a cached copy
+// still within the cache lifetime, or an expired copy served because fetching failed
+export type RateSource = "network" | "cache" | "stale-cache";
+
 export interface CurrencyData {
   rates: ExchangeRates;
   base: string;
-  timestamp: number;
+  // When the provider published the rates; the fetch time for providers that do not say
+  publishedAt: number;
+  // When the rates were fetched from the provider
+  fetchedAt: number;
+  provider: RateProviderId;
+  source: RateSource;
+  // Set when no asset provider answered and the crypto and metal rates were carried over from an
+  // earlier snapshot: when those were fetched
+  assetsFetchedAt?: number;
+}
+
+export interface CrossRate {
+  rate: Decimal;
+  // Base of the snapshot both legs were read from
+  pivot: string;
+  // A manual override or custom currency valuation was used instead of live rates
+  manual: boolean;
+}
+
+export interface ExchangeRatesOptions {
+  // Stops waiting for the network; the call then rejects with an abort error
+  signal?: AbortSignal;
+  // Set to false to get the fetch error rather than an expired copy, for callers that already
+  // show the cached rates themselves
+  fallbackToCache?: boolean;
+}
+
+export interface RoundingOptions {
+  mode: RoundingMode;
+  // Fraction digits per currency code, overriding its ISO minor units
+  precision: { [currency: string]: number };
 }
 
-export const POPULAR_CURRENCIES = [
-  "USD",
-  "EUR",
-  "GBP",
-  "JPY",
-  "AUD",
-  "CAD",
-  "CHF",
-  "CNY",
-  "SEK",
-  "NZD",
-  "MXN",
-  "SGD",
-  "HKD",
-  "NOK",
-  "TRY",
-  "RUB",
-  "INR",
-  "BRL",
-  "ZAR",
-  "KRW",
-];
-
-const CACHE_KEY = "currency_rates_cache";
-const FAVORITES_KEY = "favorite_currencies";
+const CACHE_KEY = "rates";
 const BASE_CURRENCY_KEY = "base_currency";
-const CACHE_DURATION = 6 * 60 * 60 * 1000; // 6 hours
+const RECENTS_KEY = "recent_currencies";
+// Currencies remembered for the picker's "Recent" section
+const MAX_RECENTS = 8;
+const HISTORY_KEY = "history";
+const HOUR = 60 * 60 * 1000;
+// Daily reference rates skip weekends and holidays, so only older publications count as outdated
+const OUTDATED_PUBLICATION_AGE = 4 * 24 * HOUR;
+// Fiat currency that crypto and metal prices are fetched against before being rebased
+const ASSET_PIVOT = "USD";
+// Per-base snapshots are evicted oldest-first beyond these limits
+const CACHE_MAX_BASES = 8;
+const CACHE_MAX_BYTES = 512 * 1024;
+// Rates are shown finer than amounts: 1 EUR = $1.0832, not $1.08
+const RATE_EXTRA_DIGITS = 2;
+const RATE_SIGNIFICANT_DIGITS = 5;
+// Whole provider chain attempts after the first failure, spaced out with jittered backoff
+const FETCH_RETRY = { retries: 2, baseDelayMs: 1000, maxDelayMs: 8000 };
 
 class CurrencyService {
-  private baseUrl = "https://api.exchangerate-api.com/v4/latest";
+  private providers: RateProvider[] = DEFAULT_PROVIDERS;
+  private assetProviders: RateProvider[] = DEFAULT_ASSET_PROVIDERS;
+  // Fetches in flight, keyed by the base they were requested against
+  private networkRequests = new SharedRequests<CurrencyData>();
+
+  // Rates for the base: the cached copy while it is fresh, otherwise a network fetch, falling
+  // back to the expired copy when every attempt fails. Concurrent calls for the same base share
+  // one fetch; `signal` lets a caller stop waiting, and the fetch is dropped once nobody waits.
+  // Failures are thrown as RateError subclasses saying what went wrong.
+  async getExchangeRates(baseCurrency?: string, options: ExchangeRatesOptions = {}): Promise<CurrencyData> {
+    baseCurrency = await this.resolveRatesBase(baseCurrency);
+    if (isFixtureMode()) {
+      return this.fetchFixtureRates(baseCurrency);
+    }
+
+    const cachedData = await this.getCachedExchangeRates(baseCurrency);
+    if (cachedData?.source === "cache") {
+      return cachedData;
+    }
 
-  async getExchangeRates(baseCurrency: string = "USD"): Promise<CurrencyData> {
+    // Fiat providers cannot quote against an asset, so an asset base is served through the pivot snapshot
+    const fetchBase = getAssetClass(baseCurrency) === "fiat" ? baseCurrency : ASSET_PIVOT;
     try {
-      const cachedData = await this.getCachedRates(baseCurrency);
-      if (cachedData && this.isCacheValid(cachedData.timestamp)) {
+      return await this.networkRequests.run(fetchBase, signal => this.fetchAndStore(fetchBase, signal), options.signal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error("Error fetching exchange rates:", error);
+      if (cachedData && options.fallbackToCache !== false) {
         return cachedData;
       }
+      throw error;
+    }
+  }
+
+  // The best copy on the device without touching the network: a fresh snapshot for the base or
+  // one that can triangulate it, else the newest expired one, else the offline copy kept by the
+  // web build. Null when nothing usable is stored.
+  async getCachedExchangeRates(baseCurrency?: string): Promise<CurrencyData | null> {
+    baseCurrency = await this.resolveRatesBase(baseCurrency);
+    if (isFixtureMode()) {
+      return null;
+    }
+
+    const cachedData = await this.getCachedRates(baseCurrency);
+    if (cachedData && this.isCacheValid(cachedData.fetchedAt)) {
+      return { ...cachedData, source: "cache" };
+    }
+
+    // Any fresh snapshot that quotes this currency can be triangulated through
+    const pivotData = await this.findCachedSnapshot(baseCurrency);
+    if (pivotData && this.isCacheValid(pivotData.fetchedAt)) {
+      return { ...pivotData, source: "cache" };
+    }
+
+    const staleData = cachedData ?? pivotData ?? (await loadRateSnapshot(baseCurrency));
+    return staleData ? { ...staleData, source: "stale-cache" } : null;
+  }
+
+  private async resolveRatesBase(baseCurrency?: string): Promise<string> {
+    await Promise.all([preferencesService.load(), rateOverrideService.load()]);
+    baseCurrency = baseCurrency ?? preferencesService.snapshot.defaultBaseCurrency;
+    // Custom currencies are priced from the currency they are valued against
+    return rateOverrideService.findCustomCurrency(baseCurrency)?.anchor ?? baseCurrency;
+  }
+
+  // One fetch of the provider chain, retried with backoff, and the result stored everywhere
+  // rates are kept
+  private async fetchAndStore(baseCurrency: string, signal: AbortSignal): Promise<CurrencyData> {
+    const fetched = await withRetry(() => this.fetchFromProviders(baseCurrency, signal), {
+      ...FETCH_RETRY,
+      signal,
+      shouldRetry: isRetryableNow,
+    });
+    const currencyData = await this.addAssetRates(fetched, signal);
+
+    await this.cacheRates(currencyData.base, currencyData);
+    await rateHistoryService.recordSnapshot(currencyData);
+    await saveRateSnapshot(currencyData);
+
+    return currencyData;
+  }
+
+  // Walks the provider chain in order and returns the first successful response. When every
+  // provider fails, the most telling of their errors is thrown.
+  private async fetchFromProviders(baseCurrency: string, signal?: AbortSignal): Promise<CurrencyData> {
+    const providers = await this.getProviderChain();
+    const failures: unknown[] = [];
 
-      const response = await fetch(`${this.baseUrl}/${baseCurrency}`);
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status}`);
+    for (const provider of providers) {
+      try {
+        return this.toCurrencyData(provider, await provider.fetchLatest(baseCurrency, signal));
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        console.warn(`Rate provider ${provider.id} failed:`, error);
+        failures.push(error);
       }
+    }
 
-      const data = await response.json();
-      const currencyData: CurrencyData = {
-        rates: data.rates,
-        base: data.base,
-        timestamp: Date.now(),
-      };
+    throw pickRateError(failures);
+  }
 
-      await this.cacheRates(baseCurrency, currencyData);
+  // Stamps a provider's answer and checks it the way the cache will, so a table that would be
+  // dropped on the next read is never handed out
+  private toCurrencyData(provider: RateProvider, data: ProviderRates): CurrencyData {
+    const fetchedAt = Date.now();
+    const currencyData: CurrencyData = {
+      rates: data.rates,
+      base: data.base,
+      publishedAt: data.publishedAt ?? fetchedAt,
+      fetchedAt,
+      provider: provider.id,
+      source: "network",
+    };
+    if (!isCurrencyData(currencyData)) {
+      throw new MalformedPayloadError(provider.name, "rate table failed validation");
+    }
+    return currencyData;
+  }
 
-      return currencyData;
+  // Fixture rates bypass the cache in both directions, so demo numbers never pass for live ones
+  private async fetchFixtureRates(baseCurrency: string): Promise<CurrencyData> {
+    const provider = new FixtureProvider(getFixtureServerUrl());
+    try {
+      return this.toCurrencyData(provider, await provider.fetchLatest(baseCurrency));
     } catch (error) {
-      console.error("Error fetching exchange rates:", error);
+      console.error("Error loading fixture rates:", error);
+      if (isRateError(error) && (error.kind === "offline" || error.kind === "timeout")) {
+        throw new OfflineError("Unable to load demo rates. Is the fixture server running?");
+      }
+      throw error;
+    }
+  }
 
-      // Try to return cached data even if expired
-      const cachedData = await this.getCachedRates(baseCurrency);
-      if (cachedData) {
-        return cachedData;
+  // Tops a fiat snapshot up with crypto and metal rates, converted through the pivot.
+  // When no asset provider answers, the asset rates of the previous snapshot are kept.
+  private async addAssetRates(data: CurrencyData, signal?: AbortSignal): Promise<CurrencyData> {
+    const pivotPerBase = data.base === ASSET_PIVOT ? 1 : data.rates[ASSET_PIVOT];
+    if (!pivotPerBase) {
+      return data;
+    }
+
+    for (const provider of this.assetProviders) {
+      try {
+        const assets = await provider.fetchLatest(ASSET_PIVOT, signal);
+        const rates: ExchangeRates = { ...data.rates };
+        for (const code of ASSET_CODES) {
+          if (typeof assets.rates[code] === "number") {
+            rates[code] = assets.rates[code] * pivotPerBase;
+          }
+        }
+        return { ...data, rates };
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        console.warn(`Asset provider ${provider.id} failed:`, error);
       }
+    }
+
+    const previous = await this.getCachedRates(data.base);
+    const carried = ASSET_CODES.filter(code => typeof previous?.rates[code] === "number" && !(code in data.rates));
+    if (!previous || carried.length === 0) {
+      return data;
+    }
+    return {
+      ...data,
+      rates: { ...data.rates, ...Object.fromEntries(carried.map(code => [code, previous.rates[code]])) },
+      // The carried rates keep their own age rather than passing for part of this fetch
+      assetsFetchedAt: previous.assetsFetchedAt ?? previous.fetchedAt,
+    };
+  }
 
-      throw new Error("Unable to fetch exchange rates. Please check your internet connection.");
+  // The provider chosen in preferences goes first and the rest stay as fallbacks.
+  // With "auto", a configured custom URL takes priority over the built-in providers.
+  async getProviderChain(): Promise<RateProvider[]> {
+    const { provider, customProviderUrl } = await preferencesService.get();
+    const chain = customProviderUrl ? [new CustomUrlProvider(customProviderUrl), ...this.providers] : this.providers;
+    if (provider === "auto") {
+      return chain;
     }
+    const preferred = chain.filter(candidate => candidate.id === provider);
+    return [...preferred, ...chain.filter(candidate => candidate.id !== provider)];
+  }
+
+  async getCustomProviderUrl(): Promise<string | null> {
+    return (await preferencesService.get()).customProviderUrl;
+  }
+
+  async setCustomProviderUrl(url: string | null): Promise<void> {
+    await preferencesService.update({ customProviderUrl: url || null });
   }
 
   async getCachedRates(baseCurrency: string): Promise<CurrencyData | null> {
     try {
-      const cached = await AsyncStorage.getItem(`${CACHE_KEY}_${baseCurrency}`);
-      return cached ? JSON.parse(cached) : null;
+      return await storage.get(`${CACHE_KEY}:${baseCurrency}`, isCurrencyData);
     } catch (error) {
       console.error("Error reading cached rates:", error);
       return null;
     }
   }
 
+  // Most recent cached snapshot, under any base, that has a rate for the currency
+  async findCachedSnapshot(currency: string): Promise<CurrencyData | null> {
+    try {
+      const names = await storage.keys(`${CACHE_KEY}:`);
+      const snapshots = await storage.multiGet(names, isCurrencyData);
+
+      let best: CurrencyData | null = null;
+      for (const data of snapshots) {
+        if (data && this.hasRate(data, currency) && (!best || data.fetchedAt > best.fetchedAt)) {
+          best = data;
+        }
+      }
+      return best;
+    } catch (error) {
+      console.error("Error searching cached rates:", error);
+      return null;
+    }
+  }
+
   async cacheRates(baseCurrency: string, data: CurrencyData): Promise<void> {
     try {
-      await AsyncStorage.setItem(`${CACHE_KEY}_${baseCurrency}`, JSON.stringify(data));
+      await storage.set(`${CACHE_KEY}:${baseCurrency}`, data);
+      await storage.evict(`${CACHE_KEY}:`, { maxEntries: CACHE_MAX_BASES, maxBytes: CACHE_MAX_BYTES });
     } catch (error) {
       console.error("Error caching rates:", error);
     }
   }
 
-  private isCacheValid(timestamp: number): boolean {
-    return Date.now() - timestamp < CACHE_DURATION;
+  // Drops every cached snapshot, including the offline copies kept on web, and, optionally, the
+  // recorded rate history. Rates already loaded in memory are reset by appStore.clearRates().
+  async clearCachedRates(includeHistory: boolean = false): Promise<void> {
+    try {
+      await storage.removeAll(`${CACHE_KEY}:`);
+      await clearRateSnapshots();
+      if (includeHistory) {
+        await storage.removeAll(`${HISTORY_KEY}:`);
+      }
+    } catch (error) {
+      console.error("Error clearing cached rates:", error);
+    }
+  }
+
+  private isCacheValid(fetchedAt: number): boolean {
+    return Date.now() - fetchedAt < preferencesService.snapshot.cacheDurationHours * HOUR;
+  }
+
+  // True once a snapshot has outlived the configured cache lifetime and is only shown as a fallback
+  isStale(data: CurrencyData): boolean {
+    return data.source === "stale-cache" || !this.isCacheValid(data.fetchedAt);
+  }
+
+  // True when the snapshot's crypto and metal rates are carried-over ones past the cache lifetime
+  hasStaleAssets(data: CurrencyData): boolean {
+    return data.assetsFetchedAt !== undefined && !this.isCacheValid(data.assetsFetchedAt);
+  }
+
+  // True when the provider published the rates so long ago that even a fresh fetch is behind,
+  // e.g. a source that has stopped updating
+  isOutdated(data: CurrencyData): boolean {
+    return Date.now() - data.publishedAt > OUTDATED_PUBLICATION_AGE;
+  }
+
+  hasRate(data: CurrencyData, currency: string): boolean {
+    const custom = rateOverrideService.findCustomCurrency(currency);
+    if (custom) {
+      return this.hasRate(data, custom.anchor);
+    }
+    return currency === data.base || typeof data.rates[currency] === "number";
+  }
+
+  // Rate from one currency to another, triangulated through the snapshot's base.
+  // Manual overrides take precedence, and custom currencies go through their anchor.
+  getCrossRate(fromCurrency: string, toCurrency: string, data: CurrencyData): CrossRate | null {
+    if (fromCurrency === toCurrency) {
+      return { rate: Decimal.ONE, pivot: fromCurrency, manual: false };
+    }
+
+    const override = rateOverrideService.findOverride(fromCurrency, toCurrency);
+    if (override) {
+      return { rate: override.rate, pivot: fromCurrency, manual: true };
+    }
+
+    const fromCustom = rateOverrideService.findCustomCurrency(fromCurrency);
+    if (fromCustom) {
+      const leg = this.getCrossRate(fromCustom.anchor, toCurrency, data);
+      return leg && { rate: leg.rate.multiply(fromCustom.value), pivot: leg.pivot, manual: true };
+    }
+    const toCustom = rateOverrideService.findCustomCurrency(toCurrency);
+    if (toCustom) {
+      const leg = this.getCrossRate(fromCurrency, toCustom.anchor, data);
+      return leg && { rate: leg.rate.divide(toCustom.value), pivot: leg.pivot, manual: true };
+    }
+
+    return this.getLiveCrossRate(fromCurrency, toCurrency, data);
   }
 
-  convertCurrency(amount: number, fromCurrency: string, toCurrency: string, rates: ExchangeRates): number {
+  // Rate straight from the snapshot, ignoring manual overrides; alerts watch this one
+  getLiveCrossRate(fromCurrency: string, toCurrency: string, data: CurrencyData): CrossRate | null {
     if (fromCurrency === toCurrency) {
-      return amount;
+      return { rate: Decimal.ONE, pivot: fromCurrency, manual: false };
+    }
+
+    const fromRate = fromCurrency === data.base ? 1 : data.rates[fromCurrency];
+    const toRate = toCurrency === data.base ? 1 : data.rates[toCurrency];
+    if (!fromRate || !toRate) {
+      return null;
     }
 
-    // All rates are relative to the base currency (not necessarily USD)
-    // So we can directly multiply by the target currency rate
-    return amount * (rates[toCurrency] || 0);
+    return { rate: Decimal.from(toRate).divide(fromRate), pivot: data.base, manual: false };
+  }
+
+  // Exact product of amount and cross rate; round with roundMoney when settling.
+  // Null when the snapshot cannot price the pair, so a missing rate never reads as zero.
+  convertCurrency(amount: number | string | Decimal, fromCurrency: string, toCurrency: string, data: CurrencyData): Decimal | null {
+    const crossRate = this.getCrossRate(fromCurrency, toCurrency, data);
+    return crossRate ? Decimal.from(amount).multiply(crossRate.rate) : null;
+  }
+
+  getRoundingOptions(): RoundingOptions {
+    const { roundingMode, roundingPrecision } = preferencesService.snapshot;
+    return { mode: roundingMode, precision: roundingPrecision };
+  }
+
+  async setRoundingOptions(options: Partial<RoundingOptions>): Promise<void> {
+    await preferencesService.update({
+      ...(options.mode && { roundingMode: options.mode }),
+      ...(options.precision && { roundingPrecision: options.precision }),
+    });
   }
 
-  formatCurrency(amount: number, currency: string): string {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: currency,
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(amount);
+  getRoundingPrecision(currency: string): number {
+    return preferencesService.snapshot.roundingPrecision[currency] ?? getMinorUnits(currency);
+  }
+
+  roundMoney(amount: Decimal, currency: string): Decimal {
+    return amount.round(this.getRoundingPrecision(currency), preferencesService.snapshot.roundingMode);
+  }
+
+  // Locale for formatting and parsing input: the preference, else the device locale
+  getLocale(): string {
+    return preferencesService.snapshot.locale ?? getDeviceLocale();
+  }
+
+  formatCurrency(amount: number | Decimal, currency: string, options: MoneyFormatOptions = {}): string {
+    const { displayPrecision, roundingMode } = preferencesService.snapshot;
+    return formatMoney(amount, currency, {
+      locale: this.getLocale(),
+      symbol: rateOverrideService.findCustomCurrency(currency)?.symbol,
+      precision: displayPrecision ?? this.getRoundingPrecision(currency),
+      roundingMode,
+      ...options,
+    });
+  }
+
+  // An exchange rate priced in `quote`, with a couple more digits than an amount of it would get
+  formatRate(rate: number | Decimal, quote: string): string {
+    return this.formatCurrency(rate, quote, {
+      precision: this.getRoundingPrecision(quote) + RATE_EXTRA_DIGITS,
+      tinySignificantDigits: RATE_SIGNIFICANT_DIGITS,
+    });
   }
 
   getCurrencySymbol(currency: string): string {
-    const symbols: { [key: string]: string } = {
-      USD: "$",
-      EUR: "€",
-      GBP: "£",
-      JPY: "¥",
-      AUD: "A$",
-      CAD: "C$",
-      CHF: "CHF",
-      CNY: "¥",
-      SEK: "kr",
-      NZD: "NZ$",
-      MXN: "$",
-      SGD: "S$",
-      HKD: "HK$",
-      NOK: "kr",
-      TRY: "₺",
-      RUB: "₽",
-      INR: "₹",
-      BRL: "R$",
-      ZAR: "R",
-      KRW: "₩",
-    };
-    return symbols[currency] || currency;
+    return getCurrencyInfo(currency)?.symbol ?? rateOverrideService.findCustomCurrency(currency)?.symbol ?? currency;
+  }
+
+  getCurrencyName(currency: string): string {
+    return getCurrencyInfo(currency)?.name ?? rateOverrideService.findCustomCurrency(currency)?.name ?? currency;
+  }
+
+  // Catalog currencies the snapshot has a rate for, then custom currencies it can value;
+  // retired and unknown codes are left out
+  getAvailableCurrencies(data: CurrencyData): string[] {
+    const custom = rateOverrideService.getActiveCustomCodes().filter(code => this.hasRate(data, code));
+    return [...CURRENCY_CODES.filter(code => typeof data.rates[code] === "number"), ...custom];
+  }
+
+  // Catalog code for a stored or entered code, or the code itself when it names a custom currency
+  resolveCode(code: string): string | null {
+    return resolveCurrencyCode(code) ?? (rateOverrideService.findCustomCurrency(code) ? code : null);
   }
 
-  // Favorites management
+  // Resolvable codes among `codes`, without duplicates and in their original order
+  resolveCodes(codes: string[]): string[] {
+    const resolved = codes.map(code => this.resolveCode(code)).filter((code): code is string => code !== null);
+    return [...new Set(resolved)];
+  }
+
+  // Favorites management: favorites are the currencies of the active watchlist, in the list's order
   async getFavoriteCurrencies(): Promise<string[]> {
     try {
-      const favorites = await AsyncStorage.getItem(FAVORITES_KEY);
-      return favorites ? JSON.parse(favorites) : [];
+      await Promise.all([rateOverrideService.load(), watchlistService.load()]);
+      return this.resolveCodes(watchlistService.active.currencies);
     } catch (error) {
       console.error("Error reading favorite currencies:", error);
       return [];
@@ -155,11 +492,8 @@ class CurrencyService {
   }
 
   async setFavoriteCurrencies(favorites: string[]): Promise<void> {
-    try {
-      await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
-    } catch (error) {
-      console.error("Error saving favorite currencies:", error);
-    }
+    await watchlistService.load();
+    await watchlistService.setCurrencies(watchlistService.active.id, favorites);
   }
 
   async addFavoriteCurrency(currency: string): Promise<void> {
@@ -187,20 +521,42 @@ class CurrencyService {
     }
   }
 
+  // Currencies picked most recently, newest first
+  async getRecentCurrencies(): Promise<string[]> {
+    try {
+      await rateOverrideService.load();
+      return this.resolveCodes((await storage.get(RECENTS_KEY, isStringArray)) ?? []);
+    } catch (error) {
+      console.error("Error reading recent currencies:", error);
+      return [];
+    }
+  }
+
+  async addRecentCurrency(currency: string): Promise<void> {
+    try {
+      const recents = await this.getRecentCurrencies();
+      await storage.set(RECENTS_KEY, [currency, ...recents.filter(code => code !== currency)].slice(0, MAX_RECENTS));
+    } catch (error) {
+      console.error("Error saving recent currencies:", error);
+    }
+  }
+
   async getBaseCurrency(): Promise<string> {
+    const { defaultBaseCurrency } = await preferencesService.get();
     try {
-      const baseCurrency = await AsyncStorage.getItem(BASE_CURRENCY_KEY);
-      const result = baseCurrency || "USD";
+      await rateOverrideService.load();
+      const baseCurrency = await storage.get(BASE_CURRENCY_KEY, isCurrencyCode);
+      const result = (baseCurrency && this.resolveCode(baseCurrency)) || defaultBaseCurrency;
       return result;
     } catch (error) {
       console.error("Error reading base currency:", error);
-      return "USD";
+      return defaultBaseCurrency;
     }
   }
 
   async setBaseCurrency(currency: string): Promise<void> {
     try {
-      await AsyncStorage.setItem(BASE_CURRENCY_KEY, currency);
+      await storage.set(BASE_CURRENCY_KEY, currency);
     } catch (error) {
       console.error("Error saving base currency:", error);
     }
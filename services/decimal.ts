@@ -0,0 +1,186 @@
+export type RoundingMode = "half-even" | "half-up" | "truncate";
+
+// Digits kept after the point when a division does not terminate
+export const DIVISION_SCALE = 20;
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+function pow10(exponent: number): bigint {
+  return BigInt(10) ** BigInt(exponent);
+}
+
+function abs(value: bigint): bigint {
+  return value < BigInt(0) ? -value : value;
+}
+
+// Applies the rounding mode to a truncated quotient given the remainder of the division
+function roundQuotient(quotient: bigint, remainder: bigint, divisor: bigint, mode: RoundingMode): bigint {
+  if (remainder === BigInt(0) || mode === "truncate") {
+    return quotient;
+  }
+
+  const negative = remainder < BigInt(0) !== divisor < BigInt(0);
+  const step = negative ? BigInt(-1) : BigInt(1);
+  const twiceRemainder = abs(remainder) * BigInt(2);
+  const absDivisor = abs(divisor);
+
+  if (twiceRemainder > absDivisor) {
+    return quotient + step;
+  }
+  if (twiceRemainder === absDivisor) {
+    if (mode === "half-up" || quotient % BigInt(2) !== BigInt(0)) {
+      return quotient + step;
+    }
+  }
+  return quotient;
+}
+
+/**
+ * Immutable base-10 number: `coefficient × 10^-scale`. Addition, subtraction and
+ * multiplication are exact; division and rounding take an explicit scale and mode.
+ */
+export class Decimal {
+  static readonly ZERO = new Decimal(BigInt(0), 0);
+  static readonly ONE = new Decimal(BigInt(1), 0);
+
+  private constructor(
+    readonly coefficient: bigint,
+    readonly scale: number
+  ) {}
+
+  static from(value: number | string | Decimal): Decimal {
+    if (value instanceof Decimal) {
+      return value;
+    }
+    if (typeof value === "number") {
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot represent ${value} as a decimal`);
+      }
+      // The shortest round-trip representation is exactly what the user or API meant
+      return Decimal.parse(String(value));
+    }
+    return Decimal.parse(value);
+  }
+
+  static parse(text: string): Decimal {
+    const match = DECIMAL_PATTERN.exec(text.trim());
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error(`Invalid decimal: "${text}"`);
+    }
+
+    const [, sign = "", integer = "", fraction = "", exponent = "0"] = match;
+    let coefficient = BigInt(`${sign}${integer || "0"}${fraction}`);
+    let scale = fraction.length - parseInt(exponent, 10);
+    if (scale < 0) {
+      coefficient *= pow10(-scale);
+      scale = 0;
+    }
+    return new Decimal(coefficient, scale);
+  }
+
+  private rescale(scale: number): bigint {
+    return this.coefficient * pow10(scale - this.scale);
+  }
+
+  add(other: Decimal | number | string): Decimal {
+    const value = Decimal.from(other);
+    const scale = Math.max(this.scale, value.scale);
+    return new Decimal(this.rescale(scale) + value.rescale(scale), scale);
+  }
+
+  subtract(other: Decimal | number | string): Decimal {
+    return this.add(Decimal.from(other).negate());
+  }
+
+  multiply(other: Decimal | number | string): Decimal {
+    const value = Decimal.from(other);
+    return new Decimal(this.coefficient * value.coefficient, this.scale + value.scale);
+  }
+
+  divide(other: Decimal | number | string, scale: number = DIVISION_SCALE, mode: RoundingMode = "half-even"): Decimal {
+    const value = Decimal.from(other);
+    if (value.isZero()) {
+      throw new Error("Division by zero");
+    }
+
+    // Choose the numerator's scale so the integer quotient lands at the requested scale
+    const shift = scale + value.scale - this.scale;
+    let numerator = this.coefficient;
+    let denominator = value.coefficient;
+    if (shift >= 0) {
+      numerator *= pow10(shift);
+    } else {
+      denominator *= pow10(-shift);
+    }
+
+    const quotient = numerator / denominator;
+    const remainder = numerator % denominator;
+    return new Decimal(roundQuotient(quotient, remainder, denominator, mode), scale);
+  }
+
+  round(scale: number, mode: RoundingMode = "half-even"): Decimal {
+    if (this.scale <= scale) {
+      return this;
+    }
+
+    const divisor = pow10(this.scale - scale);
+    const quotient = this.coefficient / divisor;
+    const remainder = this.coefficient % divisor;
+    return new Decimal(roundQuotient(quotient, remainder, divisor, mode), scale);
+  }
+
+  // Same value at the smallest scale that holds it: "400.0000" becomes "400"
+  stripTrailingZeros(): Decimal {
+    let coefficient = this.coefficient;
+    let scale = this.scale;
+    while (scale > 0 && coefficient % BigInt(10) === BigInt(0)) {
+      coefficient /= BigInt(10);
+      scale--;
+    }
+    return scale === this.scale ? this : new Decimal(coefficient, scale);
+  }
+
+  negate(): Decimal {
+    return new Decimal(-this.coefficient, this.scale);
+  }
+
+  abs(): Decimal {
+    return this.isNegative() ? this.negate() : this;
+  }
+
+  compare(other: Decimal | number | string): number {
+    const value = Decimal.from(other);
+    const scale = Math.max(this.scale, value.scale);
+    const difference = this.rescale(scale) - value.rescale(scale);
+    return difference === BigInt(0) ? 0 : difference < BigInt(0) ? -1 : 1;
+  }
+
+  equals(other: Decimal | number | string): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.coefficient === BigInt(0);
+  }
+
+  isNegative(): boolean {
+    return this.coefficient < BigInt(0);
+  }
+
+  toString(): string {
+    const digits = abs(this.coefficient).toString().padStart(this.scale + 1, "0");
+    const sign = this.isNegative() ? "-" : "";
+    if (this.scale === 0) {
+      return `${sign}${digits}`;
+    }
+    return `${sign}${digits.slice(0, -this.scale)}.${digits.slice(-this.scale)}`;
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
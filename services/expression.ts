@@ -0,0 +1,245 @@
+import { Decimal } from "./decimal";
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+export interface ExpressionOptions {
+  // Character the user's locale writes as the decimal point; the other of "." and "," is treated as grouping
+  decimalSeparator?: "." | ",";
+  // Drop trailing operators and close open parentheses so half-typed input still evaluates
+  allowIncomplete?: boolean;
+}
+
+type Token = { type: "number"; value: Decimal } | { type: "operator"; value: string };
+
+// A single operand, remembering whether it was written as a percentage so that
+// "200 + 10%" can mean 200 + 10% of 200, as on a pocket calculator
+interface Operand {
+  value: Decimal;
+  isPercent: boolean;
+}
+
+const OPERATOR_ALIASES: { [symbol: string]: string } = {
+  "+": "+",
+  "-": "-",
+  "−": "-",
+  "*": "*",
+  "×": "*",
+  "/": "/",
+  "÷": "/",
+  "%": "%",
+  "(": "(",
+  ")": ")",
+};
+
+const EXPRESSION_CHARACTERS = /[^0-9.,+\-−*×/÷%()\s]/g;
+
+export function sanitizeExpressionInput(text: string): string {
+  return text.replace(EXPRESSION_CHARACTERS, "");
+}
+
+export function isExpression(text: string): boolean {
+  return /[+\-−*×/÷%()]/.test(text.trim().replace(/^[-−]/, ""));
+}
+
+function normalizeNumber(raw: string, decimalSeparator: "." | ","): string {
+  const groupSeparator = decimalSeparator === "." ? "," : ".";
+
+  // A lone separator not followed by exactly three digits can only be a decimal
+  // point, whichever locale it came from: "12,5" and "12.5" are both 12.5
+  if (raw.replace(/[0-9]/g, "").length === 1 && !/[.,]\d{3}$/.test(raw)) {
+    return raw.replace(",", ".");
+  }
+
+  const withoutGroups = raw.split(groupSeparator).join("");
+  if (withoutGroups.split(decimalSeparator).length > 2) {
+    throw new ExpressionError(`Invalid number "${raw}"`);
+  }
+  return withoutGroups.replace(decimalSeparator, ".");
+}
+
+function tokenize(input: string, decimalSeparator: "." | ","): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9.,]/.test(char)) {
+      let end = index;
+      while (end < input.length && /[0-9.,]/.test(input[end])) {
+        end++;
+      }
+      const raw = input.slice(index, end);
+      if (!/[0-9]/.test(raw)) {
+        throw new ExpressionError(`Invalid number "${raw}"`);
+      }
+      tokens.push({ type: "number", value: Decimal.parse(normalizeNumber(raw, decimalSeparator)) });
+      index = end;
+      continue;
+    }
+
+    const operator = OPERATOR_ALIASES[char];
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character "${char}"`);
+    }
+    tokens.push({ type: "operator", value: operator });
+    index++;
+  }
+
+  return tokens;
+}
+
+function completeTokens(tokens: Token[]): Token[] {
+  const completed = [...tokens];
+  const isDangling = (token: Token) => token.type === "operator" && token.value !== ")" && token.value !== "%";
+  while (completed.length > 0 && isDangling(completed[completed.length - 1])) {
+    completed.pop();
+  }
+
+  let depth = 0;
+  for (const token of completed) {
+    if (token.type === "operator" && token.value === "(") depth++;
+    if (token.type === "operator" && token.value === ")") depth--;
+  }
+  for (; depth > 0; depth--) {
+    completed.push({ type: "operator", value: ")" });
+  }
+  return completed;
+}
+
+// Recursive-descent parser over the usual precedence levels:
+//   expression := term (("+" | "-") term)*
+//   term       := unary (("*" | "/") unary)*
+//   unary      := ("+" | "-") unary | postfix
+//   postfix    := primary "%"*
+//   primary    := number | "(" expression ")"
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Decimal {
+    if (this.tokens.length === 0) {
+      throw new ExpressionError("Empty expression");
+    }
+    const result = this.expression();
+    if (this.position < this.tokens.length) {
+      throw new ExpressionError("Unexpected input after expression");
+    }
+    return result.value;
+  }
+
+  private peekOperator(): string | null {
+    const token = this.tokens[this.position];
+    return token && token.type === "operator" ? token.value : null;
+  }
+
+  private expression(): Operand {
+    let left = this.term();
+    let operator = this.peekOperator();
+
+    while (operator === "+" || operator === "-") {
+      this.position++;
+      const right = this.term();
+      const addend = right.isPercent ? left.value.multiply(right.value) : right.value;
+      left = { value: operator === "+" ? left.value.add(addend) : left.value.subtract(addend), isPercent: false };
+      operator = this.peekOperator();
+    }
+    return left;
+  }
+
+  private term(): Operand {
+    let left = this.unary();
+    let operator = this.peekOperator();
+
+    while (operator === "*" || operator === "/") {
+      this.position++;
+      const right = this.unary();
+      if (operator === "*") {
+        left = { value: left.value.multiply(right.value), isPercent: false };
+      } else {
+        if (right.value.isZero()) {
+          throw new ExpressionError("Division by zero");
+        }
+        left = { value: left.value.divide(right.value), isPercent: false };
+      }
+      operator = this.peekOperator();
+    }
+    return left;
+  }
+
+  private unary(): Operand {
+    const operator = this.peekOperator();
+    if (operator === "+" || operator === "-") {
+      this.position++;
+      const operand = this.unary();
+      return operator === "-" ? { ...operand, value: operand.value.negate() } : operand;
+    }
+    return this.postfix();
+  }
+
+  private postfix(): Operand {
+    let operand = this.primary();
+    while (this.peekOperator() === "%") {
+      this.position++;
+      operand = { value: operand.value.divide(100), isPercent: true };
+    }
+    return operand;
+  }
+
+  private primary(): Operand {
+    const token = this.tokens[this.position];
+    if (!token) {
+      throw new ExpressionError("Unexpected end of expression");
+    }
+
+    if (token.type === "number") {
+      this.position++;
+      return { value: token.value, isPercent: false };
+    }
+
+    if (token.value === "(") {
+      this.position++;
+      const inner = this.expression();
+      if (this.peekOperator() !== ")") {
+        throw new ExpressionError("Missing closing parenthesis");
+      }
+      this.position++;
+      return { value: inner.value, isPercent: false };
+    }
+
+    throw new ExpressionError(`Unexpected "${token.value}"`);
+  }
+}
+
+// Division and percentages work at DIVISION_SCALE; the result is cut back to this many
+// digits, which is finer than any currency or rate needs
+const RESULT_SCALE = 10;
+
+// The result is normalized, so "1200/3" gives "400" rather than twenty zeros after the point
+export function evaluateExpression(input: string, options: ExpressionOptions = {}): Decimal {
+  let tokens = tokenize(input, options.decimalSeparator ?? ".");
+  if (options.allowIncomplete) {
+    tokens = completeTokens(tokens);
+  }
+  return new Parser(tokens).parse().round(RESULT_SCALE).stripTrailingZeros();
+}
+
+// Evaluates the input, returning null instead of throwing when it does not parse
+export function tryEvaluateExpression(input: string, options: ExpressionOptions = {}): Decimal | null {
+  try {
+    return evaluateExpression(input, options);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,132 @@
+import currencyService, { CurrencyData } from "./currencyService";
+import { Decimal } from "./decimal";
+import { isFeeProfileArray } from "./schemas";
+import storage from "./storage";
+
+// What a payment method charges on top of the mid-market rate
+export interface FeeProfile {
+  id: string;
+  name: string;
+  // FX markup or spread as a percentage of the amount, as a decimal string ("2.5")
+  markupPercent: string;
+  // Flat fee per conversion and the least the method ever charges, as decimal strings
+  fixedFee: string;
+  minimumFee: string;
+  // Currency the flat and minimum fees are charged in; null means the amount's own currency
+  feeCurrency: string | null;
+  createdAt: number;
+}
+
+export interface FeeQuote {
+  profile: FeeProfile;
+  // Total charge, in the currency converted from
+  fee: Decimal;
+  // What arrives in the target currency once the fee is taken
+  received: Decimal;
+}
+
+const PROFILES_KEY = "fee_profiles";
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+type ProfilesListener = (profiles: FeeProfile[]) => void;
+
+class FeeProfileService {
+  // Kept in memory so every row of the conversion list can be quoted synchronously
+  private profiles: FeeProfile[] = [];
+  private loaded: Promise<FeeProfile[]> | null = null;
+  private listeners = new Set<ProfilesListener>();
+
+  get snapshot(): FeeProfile[] {
+    return this.profiles;
+  }
+
+  load(): Promise<FeeProfile[]> {
+    if (!this.loaded) {
+      this.loaded = storage
+        .get(PROFILES_KEY, isFeeProfileArray)
+        .then(stored => {
+          this.profiles = stored ?? [];
+          this.notify();
+          return this.profiles;
+        })
+        .catch(error => {
+          console.error("Error reading fee profiles:", error);
+          return this.profiles;
+        });
+    }
+    return this.loaded;
+  }
+
+  async saveProfile(profile: Omit<FeeProfile, "id" | "createdAt"> & { id?: string }): Promise<FeeProfile> {
+    await this.load();
+    const existing = this.profiles.find(candidate => candidate.id === profile.id);
+    const saved: FeeProfile = { ...profile, id: existing?.id ?? createId(), createdAt: existing?.createdAt ?? Date.now() };
+    await this.setProfiles(
+      existing ? this.profiles.map(candidate => (candidate.id === saved.id ? saved : candidate)) : [...this.profiles, saved]
+    );
+    return saved;
+  }
+
+  async deleteProfile(id: string): Promise<void> {
+    await this.load();
+    await this.setProfiles(this.profiles.filter(profile => profile.id !== id));
+  }
+
+  subscribe(listener: ProfilesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Fee for converting `amount` of `from`: markup plus the flat fee, but never below the minimum.
+  // Null when a fee currency cannot be valued against `from` with the snapshot.
+  getFee(profile: FeeProfile, amount: Decimal, from: string, data: CurrencyData): Decimal | null {
+    const feeCurrency = profile.feeCurrency ?? from;
+    const fixed = currencyService.convertCurrency(profile.fixedFee, feeCurrency, from, data);
+    const minimum = currencyService.convertCurrency(profile.minimumFee, feeCurrency, from, data);
+    if (!fixed || !minimum) {
+      return null;
+    }
+
+    const markup = amount.abs().multiply(profile.markupPercent).divide(100);
+    const fee = markup.add(fixed);
+    return fee.compare(minimum) < 0 ? minimum : fee;
+  }
+
+  // Quotes every profile for one conversion, cheapest (most received) first
+  quote(amount: Decimal, from: string, to: string, data: CurrencyData, profiles: FeeProfile[] = this.profiles): FeeQuote[] {
+    const quotes: FeeQuote[] = [];
+    for (const profile of profiles) {
+      const fee = this.getFee(profile, amount, from, data);
+      if (!fee) {
+        continue;
+      }
+      const net = amount.subtract(fee);
+      const received = currencyService.convertCurrency(net.isNegative() ? Decimal.ZERO : net, from, to, data);
+      if (received) {
+        quotes.push({ profile, fee, received });
+      }
+    }
+    return quotes.sort((a, b) => b.received.compare(a.received));
+  }
+
+  private async setProfiles(profiles: FeeProfile[]): Promise<void> {
+    this.profiles = profiles;
+    try {
+      await storage.set(PROFILES_KEY, profiles);
+    } catch (error) {
+      console.error("Error saving fee profiles:", error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.profiles));
+  }
+}
+
+export default new FeeProfileService();
@@ -0,0 +1,163 @@
+import { OfflineError, TimeoutError } from "./rateErrors";
+
+// Building blocks for network requests: timeouts, cancellation, retries with backoff, and one
+// in-flight request shared by everyone asking for the same thing
+
+export class RequestAbortedError extends Error {
+  constructor(message: string = "Request was cancelled") {
+    super(message);
+    this.name = "AbortError";
+  }
+}
+
+// True for cancellations, whether raised here or by fetch itself
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryOptions extends BackoffOptions {
+  // Attempts after the first one
+  retries: number;
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+// Exponential backoff with jitter: half of base * 2^attempt (capped) is fixed and the other half
+// random, so clients that failed together do not all retry at the same moment
+export function backoffDelay(attempt: number, { baseDelayMs, maxDelayMs }: BackoffOptions, random: () => number = Math.random): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort);
+  });
+}
+
+// Runs the task until it succeeds, the retries run out or it is cancelled
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (isAbortError(error) || attempt >= options.retries || !(options.shouldRetry?.(error) ?? true)) {
+        throw error;
+      }
+      console.warn(`Attempt ${attempt + 1} failed, retrying:`, error);
+      await sleep(backoffDelay(attempt, options), options.signal);
+    }
+  }
+}
+
+// fetch that gives up after `timeoutMs`. Timeouts and connection failures come out as their own
+// error types so they can be retried; only the caller's own signal produces an abort error.
+export async function fetchWithTimeout(url: string, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+  if (signal?.aborted) {
+    throw new RequestAbortedError();
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort);
+
+  try {
+    return await fetch(url, { signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new TimeoutError(timeoutMs);
+    }
+    if (signal?.aborted) {
+      throw new RequestAbortedError();
+    }
+    // fetch only rejects when no response arrived at all
+    throw new OfflineError(error instanceof Error ? error.message : undefined);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+interface PendingRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+}
+
+// One in-flight request per key, shared by every caller asking for that key. A caller's signal
+// only detaches that caller; the request itself is aborted once every caller has let go.
+export class SharedRequests<T> {
+  private pending = new Map<string, PendingRequest<T>>();
+
+  run(key: string, start: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestAbortedError());
+    }
+
+    const request = this.pending.get(key) ?? this.start(key, start);
+    request.waiters++;
+    if (!signal) {
+      // Callers that cannot cancel keep the request alive until it settles
+      return request.promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        request.waiters--;
+        if (request.waiters === 0) {
+          request.controller.abort();
+          this.forget(key, request);
+        }
+        reject(new RequestAbortedError());
+      };
+      signal.addEventListener("abort", onAbort);
+      request.promise.then(
+        value => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        error => {
+          signal.removeEventListener("abort", onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private start(key: string, start: (signal: AbortSignal) => Promise<T>): PendingRequest<T> {
+    const controller = new AbortController();
+    const request: PendingRequest<T> = { promise: start(controller.signal), controller, waiters: 0 };
+    const settle = () => this.forget(key, request);
+    request.promise.then(settle, settle);
+    this.pending.set(key, request);
+    return request;
+  }
+
+  private forget(key: string, request: PendingRequest<T>): void {
+    if (this.pending.get(key) === request) {
+      this.pending.delete(key);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import Constants from "expo-constants";
+
+// Fixture mode serves deterministic bundled rates instead of calling live APIs, for demos,
+// screenshots and UI tests. Enable it with EXPO_PUBLIC_RATE_MODE=fixture, or with
+// `"extra": { "rateMode": "fixture" }` in app.json; the environment variable wins.
+// EXPO_PUBLIC_FIXTURE_RATES_URL (or `extra.fixtureRatesUrl`) points it at a local stand-in
+// server, such as `npm run fixture-server`, instead of the bundled snapshots.
+
+type RateMode = "live" | "fixture";
+
+function readExtra(key: string): string | null {
+  const value = Constants.expoConfig?.extra?.[key];
+  return typeof value === "string" && value ? value : null;
+}
+
+export function getRateMode(): RateMode {
+  // Expo only inlines EXPO_PUBLIC_* variables when they are read by their literal name
+  const mode = process.env.EXPO_PUBLIC_RATE_MODE || readExtra("rateMode");
+  return mode === "fixture" ? "fixture" : "live";
+}
+
+export function isFixtureMode(): boolean {
+  return getRateMode() === "fixture";
+}
+
+export function getFixtureServerUrl(): string | null {
+  return process.env.EXPO_PUBLIC_FIXTURE_RATES_URL || readExtra("fixtureRatesUrl");
+}
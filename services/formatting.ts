@@ -0,0 +1,102 @@
+import { getAssetClass, getCurrencyInfo, isKnownCurrency } from "../constants/currencies";
+import { Decimal, RoundingMode } from "./decimal";
+
+export interface MoneyFormatOptions {
+  locale?: string;
+  // Short notation such as "$1.2M"
+  compact?: boolean;
+  // Significant digits for non-zero values too small to show at the currency's minor units
+  tinySignificantDigits?: number;
+  currencyDisplay?: "symbol" | "narrowSymbol" | "code";
+  // Fraction digits to round to; defaults to the currency's minor units
+  precision?: number;
+  // Symbol for codes Intl does not know, such as user-defined currencies
+  symbol?: string;
+  roundingMode?: RoundingMode;
+}
+
+const DEFAULT_MINOR_UNITS = 2;
+const DEFAULT_TINY_SIGNIFICANT_DIGITS = 3;
+
+const formatterCache = new Map<string, Intl.NumberFormat>();
+
+export function getDeviceLocale(): string {
+  try {
+    return Intl.NumberFormat().resolvedOptions().locale;
+  } catch {
+    return "en-US";
+  }
+}
+
+export function getDecimalSeparator(locale: string = getDeviceLocale()): "." | "," {
+  const decimalPart = new Intl.NumberFormat(locale).formatToParts(1.1).find(part => part.type === "decimal");
+  return decimalPart?.value === "," ? "," : ".";
+}
+
+// Plain digits in the given decimal separator, the way an amount is typed into a field that is
+// evaluated with that separator
+export function toAmountInput(value: Decimal, decimalSeparator: "." | ","): string {
+  const text = value.toString();
+  return decimalSeparator === "," ? text.replace(".", ",") : text;
+}
+
+export function getMinorUnits(currency: string): number {
+  return getCurrencyInfo(currency)?.minorUnits ?? DEFAULT_MINOR_UNITS;
+}
+
+function getFormatter(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, options);
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+}
+
+// Intl only formats ISO 4217 codes, so crypto, metals and custom units are formatted as plain numbers
+// with their own symbol: single-character symbols lead ("₿0.0015"), others trail ("12.50 USDT")
+function formatAsset(
+  value: number,
+  currency: string,
+  locale: string,
+  options: Intl.NumberFormatOptions,
+  currencyDisplay: MoneyFormatOptions["currencyDisplay"],
+  customSymbol?: string
+): string {
+  const info = getCurrencyInfo(currency);
+  const catalogSymbol = currencyDisplay === "narrowSymbol" ? info?.narrowSymbol : info?.symbol;
+  const symbol = currencyDisplay === "code" ? currency : (catalogSymbol ?? customSymbol ?? currency);
+  const number = getFormatter(locale, options).format(Math.abs(value));
+  const sign = value < 0 ? "-" : "";
+  return symbol.length === 1 ? `${sign}${symbol}${number}` : `${sign}${number}\u00A0${symbol}`;
+}
+
+export function formatMoney(amount: number | Decimal, currency: string, options: MoneyFormatOptions = {}): string {
+  const locale = options.locale ?? getDeviceLocale();
+  const precision = options.precision ?? getMinorUnits(currency);
+  const currencyDisplay = options.currencyDisplay ?? "symbol";
+  const format = (value: number, numberOptions: Intl.NumberFormatOptions): string =>
+    getAssetClass(currency) === "fiat" && isKnownCurrency(currency)
+      ? getFormatter(locale, { style: "currency", currency, currencyDisplay, ...numberOptions }).format(value)
+      : formatAsset(value, currency, locale, numberOptions, currencyDisplay, options.symbol);
+
+  if (typeof amount === "number" && !Number.isFinite(amount)) {
+    return `${currency} —`;
+  }
+
+  // Rounding happens here in decimal, so Intl only ever sees the already-rounded value
+  const value = Decimal.from(amount);
+  const rounded = value.round(precision, options.roundingMode ?? "half-even");
+
+  // Values that would round to zero keep a few significant digits instead
+  if (rounded.isZero() && !value.isZero()) {
+    return format(value.toNumber(), { maximumSignificantDigits: options.tinySignificantDigits ?? DEFAULT_TINY_SIGNIFICANT_DIGITS });
+  }
+
+  if (options.compact) {
+    return format(value.toNumber(), { notation: "compact", maximumFractionDigits: 1 });
+  }
+
+  return format(rounded.toNumber(), { minimumFractionDigits: precision, maximumFractionDigits: precision });
+}
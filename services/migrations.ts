@@ -0,0 +1,132 @@
+import {
+  isAlertTriggerArray,
+  isCurrencyCode,
+  isCurrencyData,
+  isFiniteNumber,
+  isRateAlertArray,
+  isRatePointArray,
+  isRecord,
+  isString,
+  isStringArray,
+  Validator,
+} from "./schemas";
+import type { Migration, MigrationContext } from "./storage";
+
+function parseJson(raw: string | null): unknown {
+  if (raw === null) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+// Rate snapshots used to carry one `timestamp`, the fetch time; it stands in for the
+// publication time too, since providers' own times were not kept
+export function upgradeRateSnapshot(value: unknown): unknown {
+  if (!isRecord(value) || !isFiniteNumber(value.timestamp) || "fetchedAt" in value) {
+    return value;
+  }
+  const { timestamp, ...rest } = value;
+  return { ...rest, publishedAt: timestamp, fetchedAt: timestamp, source: "cache" };
+}
+
+// Copies one legacy un-namespaced key into the repository, dropping it if it does not validate
+async function moveLegacyKey<T>(
+  context: MigrationContext,
+  legacyKey: string,
+  name: string,
+  read: (raw: string | null) => unknown,
+  validate: Validator<T>
+): Promise<void> {
+  const raw = await context.storage.getItem(legacyKey);
+  if (raw === null) {
+    return;
+  }
+
+  const value = read(raw);
+  if (validate(value)) {
+    await context.write(name, value);
+  } else {
+    console.warn(`Dropping unreadable legacy value "${legacyKey}"`);
+  }
+  await context.storage.removeItem(legacyKey);
+}
+
+// Ordered list of schema changes. Append new entries; never edit one that has shipped.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Move legacy keys into the versioned namespace",
+    up: async context => {
+      const keys = await context.storage.getAllKeys();
+
+      for (const key of keys.filter(key => key.startsWith("currency_rates_cache_"))) {
+        const base = key.slice("currency_rates_cache_".length);
+        // Snapshots cached before provider failover existed all came from exchangerate-api. They
+        // still carry the single `timestamp` too, so they are upgraded here to what
+        // isCurrencyData checks today rather than dropped.
+        const upgradeLegacy = (raw: string | null) => {
+          const value = parseJson(raw);
+          return upgradeRateSnapshot(isRecord(value) && !("provider" in value) ? { ...value, provider: "exchangerate-api" } : value);
+        };
+        await moveLegacyKey(context, key, `rates:${base}`, upgradeLegacy, isCurrencyData);
+      }
+
+      for (const key of keys.filter(key => key.startsWith("rate_history_"))) {
+        const pair = key.slice("rate_history_".length);
+        await moveLegacyKey(context, key, `history:${pair}`, parseJson, isRatePointArray);
+      }
+
+      await moveLegacyKey(context, "favorite_currencies", "favorites", parseJson, isStringArray);
+      // The base currency and custom provider URL used to be stored as bare strings
+      await moveLegacyKey(context, "base_currency", "base_currency", raw => raw, isCurrencyCode);
+      await moveLegacyKey(context, "custom_provider_url", "custom_provider_url", raw => raw, isString);
+      await moveLegacyKey(context, "rate_alerts", "alerts", parseJson, isRateAlertArray);
+      await moveLegacyKey(context, "rate_alert_log", "alert_log", parseJson, isAlertTriggerArray);
+    },
+  },
+  {
+    version: 2,
+    description: "Fold the custom provider URL into preferences",
+    up: async context => {
+      const url = await context.read("custom_provider_url", isString);
+      if (url) {
+        const preferences = (await context.read("preferences", isRecord)) ?? {};
+        await context.write("preferences", { ...preferences, customProviderUrl: url, provider: "custom" });
+      }
+      await context.storage.removeItem(context.key("custom_provider_url"));
+    },
+  },
+  {
+    version: 3,
+    description: "Move favorites into a default watchlist",
+    up: async context => {
+      const favorites = await context.read("favorites", isStringArray);
+      if (favorites) {
+        const currencies = [...new Set(favorites.filter(isCurrencyCode))];
+        await context.write("watchlists", [{ id: "default", name: "Favorites", currencies, baseCurrency: null, createdAt: Date.now() }]);
+      }
+      await context.storage.removeItem(context.key("favorites"));
+    },
+  },
+  {
+    version: 4,
+    description: "Split rate snapshot timestamps into publication and fetch times",
+    up: async context => {
+      const prefix = context.key("rates:");
+      const keys = (await context.storage.getAllKeys()).filter(key => key.startsWith(prefix));
+      for (const key of keys) {
+        const name = `rates:${key.slice(prefix.length)}`;
+        const snapshot = upgradeRateSnapshot(await context.read(name, isRecord));
+        if (isCurrencyData(snapshot)) {
+          await context.write(name, snapshot);
+        } else {
+          await context.storage.removeItem(key);
+        }
+      }
+    },
+  },
+];
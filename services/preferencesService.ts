@@ -0,0 +1,181 @@
+import { resolveCurrencyCode } from "../constants/currencies";
+import type { RoundingMode } from "./decimal";
+import type { FiatProviderId } from "./rateProviders";
+import { isCurrencyCode, isFiniteNumber, isRecord, isString } from "./schemas";
+import storage from "./storage";
+
+// Tab the app opens on: the full currency list or the two-currency view
+export type StartScreen = "list" | "pair";
+
+export interface CurrencyPair {
+  from: string;
+  to: string;
+}
+
+export interface Preferences {
+  // How long a fetched snapshot is served before refetching
+  cacheDurationHours: number;
+  // Base used when none has been chosen yet
+  defaultBaseCurrency: string;
+  // Fraction digits for every displayed amount; null follows each currency's minor units
+  displayPrecision: number | null;
+  // BCP 47 tag for number formatting; null follows the device
+  locale: string | null;
+  // Provider tried first; "auto" keeps the built-in order
+  provider: FiatProviderId | "auto";
+  customProviderUrl: string | null;
+  roundingMode: RoundingMode;
+  // Rounding digits per currency code, overriding its ISO minor units
+  roundingPrecision: { [currency: string]: number };
+  startScreen: StartScreen;
+  // Currencies last shown in the two-currency view
+  pairCurrencies: CurrencyPair;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  cacheDurationHours: 6,
+  defaultBaseCurrency: "USD",
+  displayPrecision: null,
+  locale: null,
+  provider: "auto",
+  customProviderUrl: null,
+  roundingMode: "half-even",
+  roundingPrecision: {},
+  startScreen: "list",
+  pairCurrencies: { from: "USD", to: "EUR" },
+};
+
+export const PROVIDER_OPTIONS: (FiatProviderId | "auto")[] = ["auto", "exchangerate-api", "frankfurter", "ecb", "custom"];
+export const ROUNDING_MODES: RoundingMode[] = ["half-even", "half-up", "truncate"];
+export const START_SCREENS: StartScreen[] = ["list", "pair"];
+
+const PREFERENCES_KEY = "preferences";
+// Enough for satoshis; Intl caps fraction digits well above this anyway
+const MAX_PRECISION = 8;
+
+function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+// Custom currencies are not known yet when preferences load, so any well-formed code is kept and
+// the pair view falls back when one no longer resolves
+function sanitizePairCode(code: string): string | null {
+  return resolveCurrencyCode(code) ?? (isCurrencyCode(code) ? code : null);
+}
+
+// Keeps every stored field that is still valid and falls back to the default for the rest,
+// so adding a preference never invalidates what users already saved
+export function sanitizePreferences(value: unknown): Preferences {
+  if (!isRecord(value)) {
+    return DEFAULT_PREFERENCES;
+  }
+
+  const preferences = { ...DEFAULT_PREFERENCES };
+  if (isFiniteNumber(value.cacheDurationHours) && value.cacheDurationHours > 0) {
+    preferences.cacheDurationHours = value.cacheDurationHours;
+  }
+  if (isString(value.defaultBaseCurrency) && resolveCurrencyCode(value.defaultBaseCurrency)) {
+    preferences.defaultBaseCurrency = resolveCurrencyCode(value.defaultBaseCurrency)!;
+  }
+  if (value.displayPrecision === null || (isFiniteNumber(value.displayPrecision) && value.displayPrecision >= 0)) {
+    preferences.displayPrecision = value.displayPrecision === null ? null : Math.min(value.displayPrecision, MAX_PRECISION);
+  }
+  if (value.locale === null || (isString(value.locale) && isValidLocale(value.locale))) {
+    preferences.locale = value.locale;
+  }
+  if (PROVIDER_OPTIONS.includes(value.provider as Preferences["provider"])) {
+    preferences.provider = value.provider as Preferences["provider"];
+  }
+  if (value.customProviderUrl === null || (isString(value.customProviderUrl) && /^https?:\/\//.test(value.customProviderUrl))) {
+    preferences.customProviderUrl = value.customProviderUrl;
+  }
+  if (ROUNDING_MODES.includes(value.roundingMode as RoundingMode)) {
+    preferences.roundingMode = value.roundingMode as RoundingMode;
+  }
+  if (isRecord(value.roundingPrecision)) {
+    preferences.roundingPrecision = Object.fromEntries(
+      Object.entries(value.roundingPrecision).filter(
+        (entry): entry is [string, number] => isFiniteNumber(entry[1]) && entry[1] >= 0 && entry[1] <= MAX_PRECISION
+      )
+    );
+  }
+  if (START_SCREENS.includes(value.startScreen as StartScreen)) {
+    preferences.startScreen = value.startScreen as StartScreen;
+  }
+  if (isRecord(value.pairCurrencies) && isString(value.pairCurrencies.from) && isString(value.pairCurrencies.to)) {
+    const from = sanitizePairCode(value.pairCurrencies.from);
+    const to = sanitizePairCode(value.pairCurrencies.to);
+    if (from && to) {
+      preferences.pairCurrencies = { from, to };
+    }
+  }
+  return preferences;
+}
+
+type PreferencesListener = (preferences: Preferences) => void;
+
+class PreferencesService {
+  // Defaults until the stored values are loaded, so synchronous readers always get a full object
+  private current: Preferences = DEFAULT_PREFERENCES;
+  private loaded: Promise<void> | null = null;
+  private listeners = new Set<PreferencesListener>();
+
+  // Latest known preferences without waiting for storage
+  get snapshot(): Preferences {
+    return this.current;
+  }
+
+  load(): Promise<Preferences> {
+    if (!this.loaded) {
+      this.loaded = storage
+        .get(PREFERENCES_KEY, isRecord)
+        .then(stored => {
+          this.current = sanitizePreferences(stored);
+          this.notify();
+        })
+        .catch(error => {
+          console.error("Error reading preferences:", error);
+        });
+    }
+    // The preferences as they are once loaded, including any update made since
+    return this.loaded.then(() => this.current);
+  }
+
+  async get(): Promise<Preferences> {
+    await this.load();
+    return this.current;
+  }
+
+  async update(changes: Partial<Preferences>): Promise<Preferences> {
+    await this.load();
+    this.current = sanitizePreferences({ ...this.current, ...changes });
+    try {
+      await storage.set(PREFERENCES_KEY, this.current);
+    } catch (error) {
+      console.error("Error saving preferences:", error);
+    }
+    this.notify();
+    return this.current;
+  }
+
+  async reset(): Promise<Preferences> {
+    return this.update(DEFAULT_PREFERENCES);
+  }
+
+  subscribe(listener: PreferencesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.current));
+  }
+}
+
+export default new PreferencesService();
@@ -0,0 +1,193 @@
+import {
+  ASSET_CATALOG,
+  ASSET_CODES,
+  CURRENCY_CATALOG,
+  CURRENCY_CODES,
+  getCurrencyInfo,
+  isRetiredCurrencyCode,
+  resolveCurrencyCode,
+} from "../constants/currencies";
+import { Decimal } from "./decimal";
+import { getDeviceLocale } from "./formatting";
+
+export interface ParsedPrice {
+  amount: Decimal;
+  // Best guess for the currency, or null when the text carried no currency marker
+  currency: string | null;
+  // Every currency the marker could stand for, best guess first; more than one means it was ambiguous
+  candidates: string[];
+  matchedText: string;
+}
+
+export interface PriceParseOptions {
+  locale?: string;
+  // Currencies the user works with (base, favorites); they win ties for symbols such as "$"
+  preferredCurrencies?: string[];
+}
+
+// Written forms that are not a catalog symbol or narrow symbol
+const EXTRA_SYMBOLS: { [symbol: string]: string[] } = {
+  US$: ["USD"],
+  CA$: ["CAD"],
+  AU$: ["AUD"],
+  "Fr.": ["CHF"],
+  "SFr.": ["CHF"],
+  RMB: ["CNY"],
+  "元": ["CNY"],
+  "円": ["JPY"],
+};
+
+// The currency most people mean by a shared symbol when nothing else narrows it down
+const PRIMARY_SYMBOL_CURRENCY: { [symbol: string]: string } = {
+  $: "USD",
+  kr: "SEK",
+  "¥": "JPY",
+  "£": "GBP",
+  Rs: "PKR",
+  "C$": "CAD",
+};
+
+// Up to eight fraction digits, for crypto amounts. The grouped form must not be followed by
+// another digit, or "12.3456" would be read as "12.345" grouped into 12345.
+const NUMBER_PATTERN = "\\d{1,3}(?:[.,\\u00A0\\u202F '’]\\d{3})+(?:[.,]\\d{1,8})?(?!\\d)|\\d+(?:[.,]\\d{1,8})?";
+const TOTAL_KEYWORDS = /\b(total|amount|sum|price|summe|gesamt|montant|importe|totale)\b/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function buildSymbolTable(): Map<string, string[]> {
+  const table = new Map<string, string[]>();
+  const add = (symbol: string, code: string) => {
+    // Bare single letters ("R", "L", "K") match far too much ordinary text
+    if (/^[A-Za-z]$/.test(symbol) || symbol === code) {
+      return;
+    }
+    const codes = table.get(symbol) ?? [];
+    if (!codes.includes(code)) {
+      table.set(symbol, [...codes, code]);
+    }
+  };
+
+  for (const info of [...Object.values(CURRENCY_CATALOG), ...Object.values(ASSET_CATALOG)]) {
+    add(info.symbol, info.code);
+    add(info.narrowSymbol, info.code);
+  }
+  for (const [symbol, codes] of Object.entries(EXTRA_SYMBOLS)) {
+    codes.forEach(code => add(symbol, code));
+  }
+  return table;
+}
+
+const SYMBOL_TABLE = buildSymbolTable();
+
+const CURRENCY_PATTERN = [
+  ...[...SYMBOL_TABLE.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp),
+  "\\b[A-Z]{3}\\b",
+  // Asset codes that are not three letters, such as USDT
+  ...ASSET_CODES.filter(code => code.length !== 3).map(code => `\\b${code}\\b`),
+].join("|");
+
+const PRICE_PATTERN = new RegExp(
+  `(${CURRENCY_PATTERN})\\s?-?\\s?(${NUMBER_PATTERN})|(${NUMBER_PATTERN})\\s?(${CURRENCY_PATTERN})`,
+  "g"
+);
+const BARE_NUMBER_PATTERN = new RegExp(NUMBER_PATTERN, "g");
+
+function getLocaleRegion(locale: string): string | null {
+  const match = /[-_]([A-Z]{2})\b/.exec(locale);
+  return match ? match[1] : null;
+}
+
+// Turns "1.234,50", "1,234.50", "12 800" or "12,5" into a plain decimal string
+export function normalizePriceNumber(raw: string): string {
+  const compact = raw.replace(/[\u00A0\u202F '’]/g, "");
+  const lastDot = compact.lastIndexOf(".");
+  const lastComma = compact.lastIndexOf(",");
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    const decimal = lastDot > lastComma ? "." : ",";
+    const group = decimal === "." ? "," : ".";
+    return compact.split(group).join("").replace(decimal, ".");
+  }
+
+  const separator = lastDot >= 0 ? "." : lastComma >= 0 ? "," : null;
+  if (!separator) {
+    return compact;
+  }
+
+  const parts = compact.split(separator);
+  // Repeated, or a single one followed by exactly three digits, reads as thousands grouping;
+  // "0.015" cannot be grouping, though
+  if (parts.length > 2 || (parts[1].length === 3 && parts[0] !== "0")) {
+    return parts.join("");
+  }
+  return parts.join(".");
+}
+
+function resolveCandidates(marker: string, options: PriceParseOptions): string[] {
+  const code = resolveCurrencyCode(marker);
+  if (/^[A-Z]{3}$/.test(marker) || ASSET_CODES.includes(marker)) {
+    return code ? [code] : [];
+  }
+
+  const codes = SYMBOL_TABLE.get(marker) ?? [];
+  if (codes.length <= 1) {
+    return codes;
+  }
+
+  const preferred = options.preferredCurrencies ?? [];
+  const region = getLocaleRegion(options.locale ?? getDeviceLocale());
+  const score = (candidate: string): number => {
+    const preferredIndex = preferred.indexOf(candidate);
+    if (preferredIndex >= 0) return preferredIndex;
+    if (region && getCurrencyInfo(candidate)?.countries.includes(region)) return 100;
+    if (PRIMARY_SYMBOL_CURRENCY[marker] === candidate) return 200;
+    return 300 + CURRENCY_CODES.indexOf(candidate);
+  };
+
+  return [...codes].sort((a, b) => score(a) - score(b));
+}
+
+// Finds the most likely price in free text. Prices with a currency marker win over
+// bare numbers, and a price near a word like "Total" wins over the rest.
+export function parsePrice(text: string, options: PriceParseOptions = {}): ParsedPrice | null {
+  const found: (ParsedPrice & { index: number })[] = [];
+  let hasRetiredPrice = false;
+
+  for (const match of text.matchAll(PRICE_PATTERN)) {
+    const marker = match[1] ?? match[4];
+    const number = match[2] ?? match[3];
+    if (isRetiredCurrencyCode(marker)) {
+      hasRetiredPrice = true;
+      continue;
+    }
+    const candidates = resolveCandidates(marker, options);
+    if (candidates.length === 0) {
+      continue;
+    }
+    found.push({
+      amount: Decimal.parse(normalizePriceNumber(number)),
+      currency: candidates[0],
+      candidates,
+      matchedText: match[0],
+      index: match.index ?? 0,
+    });
+  }
+
+  if (found.length === 0) {
+    // The number belongs to a withdrawn currency; read as a bare amount it would land in the base
+    if (hasRetiredPrice) {
+      return null;
+    }
+    const bare = text.match(BARE_NUMBER_PATTERN);
+    if (!bare) {
+      return null;
+    }
+    return { amount: Decimal.parse(normalizePriceNumber(bare[0])), currency: null, candidates: [], matchedText: bare[0] };
+  }
+
+  const nearTotal = found.find(price => TOTAL_KEYWORDS.test(text.slice(Math.max(0, price.index - 24), price.index)));
+  const best = nearTotal ?? found[0];
+  return { amount: best.amount, currency: best.currency, candidates: best.candidates, matchedText: best.matchedText };
+}
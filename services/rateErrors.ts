@@ -0,0 +1,152 @@
+// Why fetching or using rates failed. Each kind gets its own message on screen and its own
+// retry policy, so a bad payload is not reported as a connection problem.
+export type RateErrorKind = "offline" | "timeout" | "http" | "rate-limited" | "malformed-payload" | "unsupported-currency";
+
+export class RateError extends Error {
+  constructor(
+    readonly kind: RateErrorKind,
+    message: string
+  ) {
+    super(message);
+    this.name = "RateError";
+  }
+}
+
+// The request never reached the provider: no connection, DNS failure, refused connection
+export class OfflineError extends RateError {
+  constructor(message: string = "Network request failed") {
+    super("offline", message);
+    this.name = "OfflineError";
+  }
+}
+
+export class TimeoutError extends RateError {
+  constructor(readonly timeoutMs: number) {
+    super("timeout", `Request timed out after ${timeoutMs / 1000}s`);
+    this.name = "TimeoutError";
+  }
+}
+
+export class HttpError extends RateError {
+  constructor(
+    readonly status: number,
+    kind: RateErrorKind = "http"
+  ) {
+    super(kind, `API Error: ${status}`);
+    this.name = "HttpError";
+  }
+}
+
+export class RateLimitedError extends HttpError {
+  // Seconds the provider asked us to wait, when it said
+  constructor(readonly retryAfter: number | null) {
+    super(429, "rate-limited");
+    this.name = "RateLimitedError";
+  }
+}
+
+// The provider answered, but not with a usable rate table
+export class MalformedPayloadError extends RateError {
+  constructor(
+    readonly provider: string,
+    detail: string
+  ) {
+    super("malformed-payload", `${provider} sent an unusable response: ${detail}`);
+    this.name = "MalformedPayloadError";
+  }
+}
+
+export class UnsupportedCurrencyError extends RateError {
+  constructor(
+    readonly currency: string,
+    message: string = `No rate available for ${currency}`
+  ) {
+    super("unsupported-currency", message);
+    this.name = "UnsupportedCurrencyError";
+  }
+}
+
+export function isRateError(error: unknown): error is RateError {
+  return error instanceof RateError;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) {
+    return null;
+  }
+  const seconds = /^\d+$/.test(header.trim()) ? Number(header) : (Date.parse(header) - now) / 1000;
+  return Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : null;
+}
+
+// Builds the error for a non-2xx response
+export function httpErrorFor(response: Response): HttpError {
+  if (response.status === 429) {
+    return new RateLimitedError(parseRetryAfter(response.headers.get("Retry-After")));
+  }
+  return new HttpError(response.status);
+}
+
+// Whether trying the same request again later can succeed. Server errors, rate limits and
+// connection problems pass; a payload we cannot read or a currency the provider lacks will not.
+export function isRetryable(error: unknown): boolean {
+  if (!isRateError(error)) {
+    return true;
+  }
+  switch (error.kind) {
+    case "malformed-payload":
+    case "unsupported-currency":
+      return false;
+    case "http":
+      return (error as HttpError).status >= 500 || (error as HttpError).status === 408;
+    default:
+      return true;
+  }
+}
+
+// Whether retrying within the same refresh, a second or two later, can help. A rate limit does
+// not lift that quickly, so it is left to the next refresh.
+export function isRetryableNow(error: unknown): boolean {
+  return isRetryable(error) && !(isRateError(error) && error.kind === "rate-limited");
+}
+
+// How long the provider asked us to wait before the next request, when it said
+export function retryAfterMs(error: unknown): number | null {
+  return error instanceof RateLimitedError && error.retryAfter ? error.retryAfter * 1000 : null;
+}
+
+// The most useful failure to report when every provider failed: connection problems only say
+// that the network is down, so a provider-specific error wins when there is one
+export function pickRateError(errors: unknown[]): unknown {
+  const specific = errors.find(error => isRateError(error) && error.kind !== "offline" && error.kind !== "timeout");
+  return specific ?? errors[0];
+}
+
+// Message for the user, phrased for what they can do about it
+export function describeRateError(error: unknown): string {
+  if (!isRateError(error)) {
+    return error instanceof Error ? error.message : "Failed to load exchange rates";
+  }
+  switch (error.kind) {
+    case "offline":
+      return "You appear to be offline. Check your internet connection and try again.";
+    case "timeout":
+      return "The rate provider is taking too long to respond. Try again in a moment.";
+    case "rate-limited": {
+      const { retryAfter } = error as RateLimitedError;
+      return retryAfter
+        ? `Too many requests to the rate provider. Try again in ${Math.ceil(retryAfter / 60)} min.`
+        : "Too many requests to the rate provider. Try again later.";
+    }
+    case "http": {
+      const { status } = error as HttpError;
+      return status >= 500
+        ? `The rate provider is having problems (error ${status}). Try again later or pick another provider in Settings.`
+        : `The rate provider refused the request (error ${status}). Check the provider settings.`;
+    }
+    case "malformed-payload":
+      return "The rate provider sent data that could not be read. Try again later or pick another provider in Settings.";
+    case "unsupported-currency":
+      return `${(error as UnsupportedCurrencyError).currency} is not offered by the rate provider.`;
+  }
+}
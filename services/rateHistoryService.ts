@@ -0,0 +1,158 @@
+import type { CurrencyData } from "./currencyService";
+import { getFixtureServerUrl, isFixtureMode } from "./fixtureMode";
+import { DEFAULT_PROVIDERS, FixtureProvider, RateProvider } from "./rateProviders";
+import { isRatePointArray } from "./schemas";
+import storage from "./storage";
+
+export interface RatePoint {
+  date: string; // YYYY-MM-DD
+  rate: number;
+}
+
+export type HistoryRange = "7d" | "30d" | "1y";
+
+export const HISTORY_RANGE_DAYS: Record<HistoryRange, number> = {
+  "7d": 7,
+  "30d": 30,
+  "1y": 365,
+};
+
+const HISTORY_KEY = "history";
+const MAX_POINTS_PER_PAIR = 400;
+// Pairs with a stored series; the least recently updated ones are dropped beyond this
+const MAX_TRACKED_PAIRS = 50;
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return toDateKey(date);
+}
+
+// Reference rates are only published on weekdays, so a range starting on a weekend can at best
+// be covered from the following Monday, and on a Monday the latest rates are Friday's
+function nearestBusinessDay(dateKey: string, step: 1 | -1): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+    date.setUTCDate(date.getUTCDate() + step);
+  }
+  return toDateKey(date);
+}
+
+// Merges new points into an existing series; later points for the same day win
+function mergePoints(existing: RatePoint[], incoming: RatePoint[]): RatePoint[] {
+  const byDate = new Map<string, number>();
+  for (const point of existing) {
+    byDate.set(point.date, point.rate);
+  }
+  for (const point of incoming) {
+    byDate.set(point.date, point.rate);
+  }
+
+  return [...byDate.entries()]
+    .map(([date, rate]) => ({ date, rate }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-MAX_POINTS_PER_PAIR);
+}
+
+class RateHistoryService {
+  private providers: RateProvider[] = DEFAULT_PROVIDERS;
+
+  private pairKey(base: string, quote: string): string {
+    return `${HISTORY_KEY}:${base}_${quote}`;
+  }
+
+  // Adds today's point to every pair of the snapshot that is already tracked. A pair starts being
+  // tracked when its chart is first opened, so a fetch does not write one series per currency.
+  async recordSnapshot(data: CurrencyData): Promise<void> {
+    try {
+      const date = toDateKey(new Date(data.publishedAt));
+      const quotes = Object.keys(data.rates).filter(quote => quote !== data.base);
+      const keys = quotes.map(quote => this.pairKey(data.base, quote));
+      const stored = await storage.multiGet(keys, isRatePointArray);
+
+      const updates: [string, RatePoint[]][] = [];
+      stored.forEach((series, index) => {
+        if (series) {
+          updates.push([keys[index], mergePoints(series, [{ date, rate: data.rates[quotes[index]] }])]);
+        }
+      });
+
+      if (updates.length > 0) {
+        await storage.multiSet(updates);
+      }
+    } catch (error) {
+      console.error("Error recording rate history:", error);
+    }
+  }
+
+  async getStoredSeries(base: string, quote: string): Promise<RatePoint[]> {
+    try {
+      return (await storage.get(this.pairKey(base, quote), isRatePointArray)) ?? [];
+    } catch (error) {
+      console.error("Error reading rate history:", error);
+      return [];
+    }
+  }
+
+  // Returns the series for the range, backfilling from a historical endpoint when the local
+  // store does not reach back far enough or has fallen behind. Snapshots only extend pairs
+  // quoted against the fetched base, so other tracked pairs are caught up here.
+  async getSeries(base: string, quote: string, range: HistoryRange): Promise<RatePoint[]> {
+    const start = daysAgo(HISTORY_RANGE_DAYS[range]);
+    // Fixture history is read straight from the fixture and never stored next to live history
+    if (isFixtureMode()) {
+      return new FixtureProvider(getFixtureServerUrl()).fetchHistory(base, quote, start, toDateKey(new Date()));
+    }
+
+    let series = await this.getStoredSeries(base, quote);
+
+    // Today's rates may not be published yet, so a series is current once it reaches the
+    // business day before today
+    const latest = nearestBusinessDay(daysAgo(1), -1);
+    if (series.length === 0 || series[0].date > nearestBusinessDay(start, 1) || series[series.length - 1].date < latest) {
+      series = await this.backfill(base, quote, start);
+    }
+
+    return series.filter(point => point.date >= start);
+  }
+
+  async backfill(base: string, quote: string, startDate: string): Promise<RatePoint[]> {
+    const endDate = toDateKey(new Date());
+
+    for (const provider of this.providers) {
+      if (!provider.fetchHistory) {
+        continue;
+      }
+
+      try {
+        const points = await provider.fetchHistory(base, quote, startDate, endDate);
+        const existing = await this.getStoredSeries(base, quote);
+        const merged = mergePoints(points, existing);
+        await this.track(base, quote, merged);
+        return merged;
+      } catch (error) {
+        console.warn(`History backfill from ${provider.id} failed:`, error);
+      }
+    }
+
+    // Without a backfill the pair is still tracked from now on
+    const existing = await this.getStoredSeries(base, quote);
+    await this.track(base, quote, existing);
+    return existing;
+  }
+
+  private async track(base: string, quote: string, series: RatePoint[]): Promise<void> {
+    try {
+      await storage.set(this.pairKey(base, quote), series);
+      await storage.evict(`${HISTORY_KEY}:`, { maxEntries: MAX_TRACKED_PAIRS });
+    } catch (error) {
+      console.error("Error saving rate history:", error);
+    }
+  }
+}
+
+export default new RateHistoryService();
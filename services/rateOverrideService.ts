@@ -0,0 +1,183 @@
+import { isKnownCurrency } from "../constants/currencies";
+import { Decimal } from "./decimal";
+import { isCustomCurrencyArray, isRateOverrideArray } from "./schemas";
+import storage from "./storage";
+
+// A fixed rate for one pair that wins over live rates, e.g. a kiosk or per-diem rate
+export interface RateOverride {
+  id: string;
+  base: string;
+  quote: string;
+  // Units of quote per one unit of base, as a decimal string
+  rate: string;
+  note?: string;
+  // Live rates apply again from this moment; null keeps the override until removed
+  expiresAt: number | null;
+  createdAt: number;
+}
+
+// A user-defined unit valued against a real currency, e.g. "company EUR" or "game gold"
+export interface CustomCurrency {
+  code: string;
+  name: string;
+  symbol: string;
+  anchor: string;
+  // Units of anchor one unit of the custom currency is worth, as a decimal string
+  value: string;
+  expiresAt: number | null;
+  createdAt: number;
+}
+
+const OVERRIDES_KEY = "rate_overrides";
+const CUSTOM_CURRENCIES_KEY = "custom_currencies";
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isExpired(entry: { expiresAt: number | null }, now: number = Date.now()): boolean {
+  return entry.expiresAt !== null && entry.expiresAt <= now;
+}
+
+type OverridesListener = () => void;
+
+class RateOverrideService {
+  // Kept in memory so conversions can apply overrides synchronously
+  private overrides: RateOverride[] = [];
+  private customCurrencies: CustomCurrency[] = [];
+  private loaded: Promise<void> | null = null;
+  private listeners = new Set<OverridesListener>();
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = Promise.all([
+        storage.get(OVERRIDES_KEY, isRateOverrideArray),
+        storage.get(CUSTOM_CURRENCIES_KEY, isCustomCurrencyArray),
+      ])
+        .then(([overrides, customCurrencies]) => {
+          this.overrides = overrides ?? [];
+          this.customCurrencies = customCurrencies ?? [];
+          this.notify();
+        })
+        .catch(error => {
+          console.error("Error reading manual rates:", error);
+        });
+    }
+    return this.loaded;
+  }
+
+  async getOverrides(): Promise<RateOverride[]> {
+    await this.load();
+    return this.overrides;
+  }
+
+  async getCustomCurrencies(): Promise<CustomCurrency[]> {
+    await this.load();
+    return this.customCurrencies;
+  }
+
+  // Active override for the pair in either direction; the reverse direction is inverted
+  findOverride(base: string, quote: string): { rate: Decimal; override: RateOverride } | null {
+    const now = Date.now();
+    for (const override of this.overrides) {
+      if (isExpired(override, now)) {
+        continue;
+      }
+      if (override.base === base && override.quote === quote) {
+        return { rate: Decimal.parse(override.rate), override };
+      }
+      if (override.base === quote && override.quote === base) {
+        return { rate: Decimal.ONE.divide(override.rate), override };
+      }
+    }
+    return null;
+  }
+
+  // Custom currency by code, ignoring expired definitions
+  findCustomCurrency(code: string): CustomCurrency | null {
+    const currency = this.customCurrencies.find(candidate => candidate.code === code);
+    return currency && !isExpired(currency) ? currency : null;
+  }
+
+  getActiveCustomCodes(): string[] {
+    return this.customCurrencies.filter(currency => !isExpired(currency)).map(currency => currency.code);
+  }
+
+  async setOverride(base: string, quote: string, rate: Decimal, expiresAt: number | null, note?: string): Promise<RateOverride> {
+    await this.load();
+    const override: RateOverride = { id: createId(), base, quote, rate: rate.toString(), note, expiresAt, createdAt: Date.now() };
+    // One override per pair, whichever direction it was entered in
+    const others = this.overrides.filter(
+      existing => !((existing.base === base && existing.quote === quote) || (existing.base === quote && existing.quote === base))
+    );
+    await this.saveOverrides([...others, override]);
+    return override;
+  }
+
+  async removeOverride(id: string): Promise<void> {
+    await this.load();
+    await this.saveOverrides(this.overrides.filter(override => override.id !== id));
+  }
+
+  // Drops whatever override covers the pair, so live rates apply again
+  async revertToLive(base: string, quote: string): Promise<void> {
+    const active = this.findOverride(base, quote);
+    if (active) {
+      await this.removeOverride(active.override.id);
+    }
+  }
+
+  async saveCustomCurrency(currency: Omit<CustomCurrency, "createdAt">): Promise<CustomCurrency> {
+    await this.load();
+    if (isKnownCurrency(currency.code)) {
+      throw new Error(`${currency.code} is already a real currency code`);
+    }
+    // Anchoring to another custom unit could form a cycle, so the anchor must be real
+    if (!isKnownCurrency(currency.anchor)) {
+      throw new Error("A custom currency must be valued against a real currency");
+    }
+
+    const saved: CustomCurrency = { ...currency, createdAt: Date.now() };
+    await this.saveCustomCurrencies([...this.customCurrencies.filter(existing => existing.code !== currency.code), saved]);
+    return saved;
+  }
+
+  async removeCustomCurrency(code: string): Promise<void> {
+    await this.load();
+    await this.saveCustomCurrencies(this.customCurrencies.filter(currency => currency.code !== code));
+    await this.saveOverrides(this.overrides.filter(override => override.base !== code && override.quote !== code));
+  }
+
+  subscribe(listener: OverridesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async saveOverrides(overrides: RateOverride[]): Promise<void> {
+    this.overrides = overrides;
+    try {
+      await storage.set(OVERRIDES_KEY, overrides);
+    } catch (error) {
+      console.error("Error saving manual rates:", error);
+    }
+    this.notify();
+  }
+
+  private async saveCustomCurrencies(currencies: CustomCurrency[]): Promise<void> {
+    this.customCurrencies = currencies;
+    try {
+      await storage.set(CUSTOM_CURRENCIES_KEY, currencies);
+    } catch (error) {
+      console.error("Error saving custom currencies:", error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default new RateOverrideService();
@@ -0,0 +1,292 @@
+import bundledFixture from "../assets/fixtures/rates.json";
+import type { ExchangeRates } from "./currencyService";
+import { fetchWithTimeout } from "./fetchPipeline";
+import { HttpError, httpErrorFor, MalformedPayloadError, UnsupportedCurrencyError } from "./rateErrors";
+import { isCoinGeckoRatesPayload, isRateFixture, isRateSeriesPayload, isRateTablePayload, isRecord, Validator } from "./schemas";
+import type { RatePoint } from "./rateHistoryService";
+
+export type RateProviderId = "exchangerate-api" | "frankfurter" | "ecb" | "custom" | "coingecko" | "fixture";
+// Providers that can serve the fiat table; asset providers only top it up, and the fixture
+// provider is selected by configuration rather than by the user
+export type FiatProviderId = Exclude<RateProviderId, "coingecko" | "fixture">;
+
+export interface ProviderRates {
+  base: string;
+  rates: ExchangeRates;
+  // When the provider published these rates, for providers that say
+  publishedAt?: number;
+}
+
+export interface RateProvider {
+  readonly id: RateProviderId;
+  readonly name: string;
+  // `signal` cancels the request once nobody needs the answer any more
+  fetchLatest(baseCurrency: string, signal?: AbortSignal): Promise<ProviderRates>;
+  // Optional daily series between two YYYY-MM-DD dates, inclusive
+  fetchHistory?(baseCurrency: string, quoteCurrency: string, startDate: string, endDate: string): Promise<RatePoint[]>;
+}
+
+// Re-expresses a rate table quoted against `from` as one quoted against `to`.
+// The returned table always contains the new base itself at 1.
+export function rebaseRates(rates: ExchangeRates, from: string, to: string): ExchangeRates {
+  const table: ExchangeRates = { ...rates, [from]: 1 };
+  if (from === to) {
+    return table;
+  }
+
+  const pivot = table[to];
+  if (!pivot) {
+    throw new UnsupportedCurrencyError(to, `Rate for ${to} not available against ${from}`);
+  }
+
+  const rebased: ExchangeRates = {};
+  for (const [currency, rate] of Object.entries(table)) {
+    rebased[currency] = rate / pivot;
+  }
+  rebased[to] = 1;
+  return rebased;
+}
+
+// Reads a publication time given as Unix seconds or milliseconds, an ISO timestamp or a
+// YYYY-MM-DD date. Daily reference rates are fixed around 16:00 CET, so bare dates get that time.
+export function parsePublicationTime(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const time = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T15:00:00Z` : value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// A provider that has not answered by then is treated as down, so the next one gets a turn
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+async function fetchJson<T>(url: string, provider: string, validate: Validator<T>, signal?: AbortSignal): Promise<T> {
+  const response = await fetchWithTimeout(url, REQUEST_TIMEOUT_MS, signal);
+  if (!response.ok) {
+    throw httpErrorFor(response);
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new MalformedPayloadError(provider, "not valid JSON");
+  }
+  if (!validate(data)) {
+    throw new MalformedPayloadError(provider, "missing or invalid rates");
+  }
+  return data;
+}
+
+// Providers answer 404 for a base they do not quote
+function notFoundAsUnsupported(baseCurrency: string): (error: unknown) => never {
+  return error => {
+    if (error instanceof HttpError && error.status === 404) {
+      throw new UnsupportedCurrencyError(baseCurrency, `${baseCurrency} is not offered by this provider`);
+    }
+    throw error;
+  };
+}
+
+export class ExchangeRateApiProvider implements RateProvider {
+  readonly id = "exchangerate-api";
+  readonly name = "ExchangeRate-API";
+  private baseUrl = "https://api.exchangerate-api.com/v4/latest";
+
+  async fetchLatest(baseCurrency: string, signal?: AbortSignal): Promise<ProviderRates> {
+    const data = await fetchJson(`${this.baseUrl}/${baseCurrency}`, this.name, isRateTablePayload, signal).catch(
+      notFoundAsUnsupported(baseCurrency)
+    );
+    const base = data.base ?? baseCurrency;
+    return {
+      base,
+      rates: { ...data.rates, [base]: 1 },
+      publishedAt: parsePublicationTime(data.time_last_updated ?? data.date),
+    };
+  }
+}
+
+export class FrankfurterProvider implements RateProvider {
+  readonly id = "frankfurter";
+  readonly name = "Frankfurter";
+  private baseUrl = "https://api.frankfurter.app";
+
+  async fetchLatest(baseCurrency: string, signal?: AbortSignal): Promise<ProviderRates> {
+    const data = await fetchJson(`${this.baseUrl}/latest?from=${baseCurrency}`, this.name, isRateTablePayload, signal).catch(
+      notFoundAsUnsupported(baseCurrency)
+    );
+    const base = data.base ?? baseCurrency;
+    return {
+      base,
+      rates: { ...data.rates, [base]: 1 },
+      publishedAt: parsePublicationTime(data.date),
+    };
+  }
+
+  async fetchHistory(baseCurrency: string, quoteCurrency: string, startDate: string, endDate: string): Promise<RatePoint[]> {
+    const data = await fetchJson(
+      `${this.baseUrl}/${startDate}..${endDate}?from=${baseCurrency}&to=${quoteCurrency}`,
+      this.name,
+      isRateSeriesPayload
+    );
+
+    return Object.entries(data.rates)
+      .filter(([, rates]) => typeof rates[quoteCurrency] === "number")
+      .map(([date, rates]) => ({ date, rate: rates[quoteCurrency] }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+}
+
+export class EcbProvider implements RateProvider {
+  readonly id = "ecb";
+  readonly name = "European Central Bank";
+  private feedUrl = "https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml";
+
+  async fetchLatest(baseCurrency: string, signal?: AbortSignal): Promise<ProviderRates> {
+    const response = await fetchWithTimeout(this.feedUrl, REQUEST_TIMEOUT_MS, signal);
+    if (!response.ok) {
+      throw httpErrorFor(response);
+    }
+
+    const xml = await response.text();
+    const rates: ExchangeRates = {};
+    const cubePattern = /currency=['"]([A-Z]{3})['"]\s+rate=['"]([0-9.]+)['"]/g;
+    let match: RegExpExecArray | null;
+    while ((match = cubePattern.exec(xml)) !== null) {
+      rates[match[1]] = parseFloat(match[2]);
+    }
+
+    if (Object.keys(rates).length === 0) {
+      throw new MalformedPayloadError(this.name, "no rates in the feed");
+    }
+
+    // The daily feed is always quoted against EUR
+    return {
+      base: baseCurrency,
+      rates: rebaseRates(rates, "EUR", baseCurrency),
+      publishedAt: parsePublicationTime(xml.match(/time=['"](\d{4}-\d{2}-\d{2})['"]/)?.[1]),
+    };
+  }
+}
+
+// Calls a user-supplied endpoint. `{base}` in the URL is replaced with the requested
+// base currency; the response must be JSON with a `rates` object and optionally `base` and
+// a publication time in `time_last_updated`, `timestamp` or `date`.
+export class CustomUrlProvider implements RateProvider {
+  readonly id = "custom";
+  readonly name = "Custom URL";
+
+  constructor(private urlTemplate: string) {}
+
+  async fetchLatest(baseCurrency: string, signal?: AbortSignal): Promise<ProviderRates> {
+    const url = this.urlTemplate.includes("{base}")
+      ? this.urlTemplate.replace("{base}", encodeURIComponent(baseCurrency))
+      : this.urlTemplate;
+    const data = await fetchJson(url, this.name, isRateTablePayload, signal);
+    const base = data.base ?? baseCurrency;
+
+    return {
+      base: baseCurrency,
+      rates: rebaseRates(data.rates, base, baseCurrency),
+      publishedAt: parsePublicationTime(data.time_last_updated ?? data.timestamp ?? data.date),
+    };
+  }
+}
+
+// Crypto and metal prices. `exchange_rates` quotes everything per 1 BTC, including
+// fiat and metals; Tether is not in that table and comes from `simple/price`.
+export class CoinGeckoProvider implements RateProvider {
+  readonly id = "coingecko";
+  readonly name = "CoinGecko";
+  private baseUrl = "https://api.coingecko.com/api/v3";
+  private assets: { [code: string]: string } = { BTC: "btc", ETH: "eth", XAU: "xau", XAG: "xag" };
+
+  async fetchLatest(baseCurrency: string, signal?: AbortSignal): Promise<ProviderRates> {
+    const vsCurrency = baseCurrency.toLowerCase();
+    const [table, tether] = await Promise.all([
+      fetchJson(`${this.baseUrl}/exchange_rates`, this.name, isCoinGeckoRatesPayload, signal),
+      fetchJson(`${this.baseUrl}/simple/price?ids=tether&vs_currencies=${vsCurrency}`, this.name, isRecord, signal).catch(error => {
+        console.warn("Tether price unavailable:", error);
+        return null;
+      }),
+    ]);
+
+    const perBtc = table.rates;
+    const basePerBtc = perBtc[vsCurrency]?.value;
+    if (!basePerBtc) {
+      throw new UnsupportedCurrencyError(baseCurrency, `CoinGecko has no rates against ${baseCurrency}`);
+    }
+
+    const rates: ExchangeRates = { [baseCurrency]: 1 };
+    for (const [code, key] of Object.entries(this.assets)) {
+      const value = perBtc[key]?.value;
+      if (value) {
+        rates[code] = value / basePerBtc;
+      }
+    }
+    const tetherPrice = isRecord(tether?.tether) ? tether.tether[vsCurrency] : undefined;
+    if (typeof tetherPrice === "number" && tetherPrice > 0) {
+      rates.USDT = 1 / tetherPrice;
+    }
+
+    return { base: baseCurrency, rates };
+  }
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Moves a YYYY-MM-DD date by whole days
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+// Dated snapshots quoted against one base, oldest first
+export interface RateFixture {
+  base: string;
+  snapshots: { date: string; rates: ExchangeRates }[];
+}
+
+// Deterministic rates for demos and tests, from the bundled snapshots or a local stand-in
+// server returning the same shape. The latest snapshot answers fetchLatest and all of them
+// make up the history, so converted amounts and charts are identical on every run.
+export class FixtureProvider implements RateProvider {
+  readonly id = "fixture";
+  readonly name = "Demo rates";
+
+  constructor(private serverUrl: string | null = null) {}
+
+  async fetchLatest(baseCurrency: string, signal?: AbortSignal): Promise<ProviderRates> {
+    const fixture = await this.loadFixture(signal);
+    const latest = fixture.snapshots[fixture.snapshots.length - 1];
+    // A base outside the fixture is served the fixture's own table, like any other pivot snapshot
+    const base = baseCurrency === fixture.base || latest.rates[baseCurrency] ? baseCurrency : fixture.base;
+    return { base, rates: rebaseRates(latest.rates, fixture.base, base), publishedAt: parsePublicationTime(latest.date) };
+  }
+
+  // The snapshots keep their spacing but are moved so the latest one falls on `endDate`
+  async fetchHistory(baseCurrency: string, quoteCurrency: string, startDate: string, endDate: string): Promise<RatePoint[]> {
+    const fixture = await this.loadFixture();
+    const latest = fixture.snapshots[fixture.snapshots.length - 1];
+    const offsetDays = Math.round((Date.parse(endDate) - Date.parse(latest.date)) / DAY);
+
+    return fixture.snapshots.flatMap(snapshot => {
+      const date = shiftDate(snapshot.date, offsetDays);
+      const rates: ExchangeRates = { ...snapshot.rates, [fixture.base]: 1 };
+      const base = rates[baseCurrency];
+      const quote = rates[quoteCurrency];
+      return date >= startDate && base && quote ? [{ date, rate: quote / base }] : [];
+    });
+  }
+
+  private async loadFixture(signal?: AbortSignal): Promise<RateFixture> {
+    return this.serverUrl ? fetchJson(this.serverUrl, this.name, isRateFixture, signal) : bundledFixture;
+  }
+}
+
+export const DEFAULT_PROVIDERS: RateProvider[] = [new ExchangeRateApiProvider(), new FrankfurterProvider(), new EcbProvider()];
+export const DEFAULT_ASSET_PROVIDERS: RateProvider[] = [new CoinGeckoProvider()];
@@ -0,0 +1,11 @@
+import type { CurrencyData } from "./currencyService";
+
+// Native builds keep snapshots in AsyncStorage, which already survives restarts and
+// offline starts; the web build swaps this module for the IndexedDB one in rateSnapshotStore.web.ts
+export async function saveRateSnapshot(data: CurrencyData): Promise<void> {}
+
+export async function loadRateSnapshot(currency: string): Promise<CurrencyData | null> {
+  return null;
+}
+
+export async function clearRateSnapshots(): Promise<void> {}
@@ -0,0 +1,78 @@
+import type { CurrencyData } from "./currencyService";
+import { upgradeRateSnapshot } from "./migrations";
+import { isCurrencyData } from "./schemas";
+
+// Last snapshot per base in IndexedDB, so the installed web app can convert on a cold
+// start in airplane mode even when localStorage (behind AsyncStorage) has been cleared
+const DB_NAME = "currencysnap";
+const DB_VERSION = 1;
+const STORE_NAME = "rate_snapshots";
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "base" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveRateSnapshot(data: CurrencyData): Promise<void> {
+  if (typeof indexedDB === "undefined") {
+    return;
+  }
+  try {
+    const db = await openDatabase();
+    await requestToPromise(db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).put(data));
+  } catch (error) {
+    console.error("Error saving offline rate snapshot:", error);
+  }
+}
+
+// Most recent stored snapshot that has a rate for the currency
+export async function loadRateSnapshot(currency: string): Promise<CurrencyData | null> {
+  if (typeof indexedDB === "undefined") {
+    return null;
+  }
+  try {
+    const db = await openDatabase();
+    const stored: unknown[] = await requestToPromise(db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).getAll());
+    return stored
+      .map(upgradeRateSnapshot)
+      .filter(isCurrencyData)
+      .filter(data => data.base === currency || typeof data.rates[currency] === "number")
+      .reduce<CurrencyData | null>((best, data) => (!best || data.fetchedAt > best.fetchedAt ? data : best), null);
+  } catch (error) {
+    console.error("Error reading offline rate snapshot:", error);
+    return null;
+  }
+}
+
+export async function clearRateSnapshots(): Promise<void> {
+  if (typeof indexedDB === "undefined") {
+    return;
+  }
+  try {
+    const db = await openDatabase();
+    await requestToPromise(db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).clear());
+  } catch (error) {
+    console.error("Error clearing offline rate snapshots:", error);
+  }
+}
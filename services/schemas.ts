@@ -0,0 +1,213 @@
+import type { AlertTrigger, RateAlert } from "./alertService";
+import type { ConversionRecord } from "./conversionHistoryService";
+import type { CurrencyData, ExchangeRates } from "./currencyService";
+import type { FeeProfile } from "./feeProfileService";
+import type { RateFixture } from "./rateProviders";
+import type { RatePoint } from "./rateHistoryService";
+import type { CustomCurrency, RateOverride } from "./rateOverrideService";
+import type { Watchlist } from "./watchlistService";
+
+// Runtime type guards for everything read back from storage or received from rate
+// providers. Stored data can predate the current types or be corrupted, and a provider
+// can send an error page or a partial table, so neither is trusted blindly.
+export type Validator<T> = (value: unknown) => value is T;
+
+export function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === "string" && /^[A-Z0-9]{3,8}$/.test(value);
+}
+
+export function arrayOf<T>(validate: Validator<T>): Validator<T[]> {
+  return (value: unknown): value is T[] => Array.isArray(value) && value.every(validate);
+}
+
+export const isStringArray = arrayOf(isString);
+
+// Non-negative decimal written out in plain notation, as Decimal.toString produces
+export function isDecimalString(value: unknown): value is string {
+  return typeof value === "string" && /^\d+(\.\d+)?$/.test(value);
+}
+
+export function isPositiveDecimalString(value: unknown): value is string {
+  return isDecimalString(value) && /[1-9]/.test(value);
+}
+
+function isExpiry(value: unknown): value is number | null {
+  return value === null || isFiniteNumber(value);
+}
+
+export function isExchangeRates(value: unknown): value is ExchangeRates {
+  return isRecord(value) && Object.values(value).every(rate => isFiniteNumber(rate) && rate > 0);
+}
+
+export function isCurrencyData(value: unknown): value is CurrencyData {
+  return (
+    isRecord(value) &&
+    isExchangeRates(value.rates) &&
+    isCurrencyCode(value.base) &&
+    isFiniteNumber(value.publishedAt) &&
+    isFiniteNumber(value.fetchedAt) &&
+    isString(value.provider) &&
+    (value.source === "network" || value.source === "cache" || value.source === "stale-cache") &&
+    (value.assetsFetchedAt === undefined || isFiniteNumber(value.assetsFetchedAt))
+  );
+}
+
+export function isRatePoint(value: unknown): value is RatePoint {
+  return isRecord(value) && isString(value.date) && /^\d{4}-\d{2}-\d{2}$/.test(value.date) && isFiniteNumber(value.rate);
+}
+
+export const isRatePointArray = arrayOf(isRatePoint);
+
+export function isRateAlert(value: unknown): value is RateAlert {
+  if (!isRecord(value) || !isString(value.id) || !isCurrencyCode(value.base) || !isCurrencyCode(value.quote)) {
+    return false;
+  }
+  const condition = value.condition;
+  if (!isRecord(condition)) {
+    return false;
+  }
+  const validCondition =
+    ((condition.type === "above" || condition.type === "below") && isFiniteNumber(condition.threshold)) ||
+    (condition.type === "change" && isFiniteNumber(condition.percent));
+  return validCondition && typeof value.paused === "boolean" && isFiniteNumber(value.createdAt);
+}
+
+export const isRateAlertArray = arrayOf(isRateAlert);
+
+export function isAlertTrigger(value: unknown): value is AlertTrigger {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.alertId) &&
+    isCurrencyCode(value.base) &&
+    isCurrencyCode(value.quote) &&
+    isFiniteNumber(value.rate) &&
+    isString(value.message) &&
+    isFiniteNumber(value.triggeredAt)
+  );
+}
+
+export const isAlertTriggerArray = arrayOf(isAlertTrigger);
+
+export function isConversionRecord(value: unknown): value is ConversionRecord {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.amount) &&
+    isCurrencyCode(value.from) &&
+    isCurrencyCode(value.to) &&
+    isString(value.rate) &&
+    isString(value.result) &&
+    isFiniteNumber(value.rateTimestamp) &&
+    isFiniteNumber(value.createdAt) &&
+    typeof value.pinned === "boolean"
+  );
+}
+
+export const isConversionRecordArray = arrayOf(isConversionRecord);
+
+export function isRateOverride(value: unknown): value is RateOverride {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isCurrencyCode(value.base) &&
+    isCurrencyCode(value.quote) &&
+    isPositiveDecimalString(value.rate) &&
+    (value.note === undefined || isString(value.note)) &&
+    isExpiry(value.expiresAt) &&
+    isFiniteNumber(value.createdAt)
+  );
+}
+
+export const isRateOverrideArray = arrayOf(isRateOverride);
+
+export function isCustomCurrency(value: unknown): value is CustomCurrency {
+  return (
+    isRecord(value) &&
+    isCurrencyCode(value.code) &&
+    isString(value.name) &&
+    isString(value.symbol) &&
+    isCurrencyCode(value.anchor) &&
+    isPositiveDecimalString(value.value) &&
+    isExpiry(value.expiresAt) &&
+    isFiniteNumber(value.createdAt)
+  );
+}
+
+export const isCustomCurrencyArray = arrayOf(isCustomCurrency);
+
+export function isFeeProfile(value: unknown): value is FeeProfile {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.name) &&
+    isDecimalString(value.markupPercent) &&
+    isDecimalString(value.fixedFee) &&
+    isDecimalString(value.minimumFee) &&
+    (value.feeCurrency === null || isCurrencyCode(value.feeCurrency)) &&
+    isFiniteNumber(value.createdAt)
+  );
+}
+
+export const isFeeProfileArray = arrayOf(isFeeProfile);
+
+export function isWatchlist(value: unknown): value is Watchlist {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.name) &&
+    Array.isArray(value.currencies) &&
+    value.currencies.every(isCurrencyCode) &&
+    (value.baseCurrency === null || isCurrencyCode(value.baseCurrency)) &&
+    isFiniteNumber(value.createdAt)
+  );
+}
+
+export const isWatchlistArray = arrayOf(isWatchlist);
+
+// Provider payloads
+
+function isNonEmptyRates(value: unknown): value is ExchangeRates {
+  return isExchangeRates(value) && Object.keys(value).length > 0;
+}
+
+// `{ base?, rates }` as served by ExchangeRate-API, Frankfurter and custom endpoints
+export function isRateTablePayload(value: unknown): value is { base?: string; rates: ExchangeRates; [key: string]: unknown } {
+  return isRecord(value) && isNonEmptyRates(value.rates) && (value.base === undefined || isString(value.base));
+}
+
+// Daily tables keyed by YYYY-MM-DD, as served by Frankfurter's time series
+export function isRateSeriesPayload(value: unknown): value is { rates: { [date: string]: ExchangeRates } } {
+  return isRecord(value) && isRecord(value.rates) && Object.values(value.rates).every(isExchangeRates);
+}
+
+// CoinGecko's `exchange_rates`: every entry priced per 1 BTC
+export function isCoinGeckoRatesPayload(value: unknown): value is { rates: { [key: string]: { value: number } } } {
+  return (
+    isRecord(value) &&
+    isRecord(value.rates) &&
+    Object.values(value.rates).every(entry => isRecord(entry) && isFiniteNumber(entry.value) && entry.value >= 0)
+  );
+}
+
+export function isRateFixture(value: unknown): value is RateFixture {
+  return (
+    isRecord(value) &&
+    isCurrencyCode(value.base) &&
+    Array.isArray(value.snapshots) &&
+    value.snapshots.length > 0 &&
+    value.snapshots.every(snapshot => isRecord(snapshot) && isString(snapshot.date) && isNonEmptyRates(snapshot.rates))
+  );
+}
@@ -0,0 +1,170 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { MIGRATIONS } from "./migrations";
+import { isFiniteNumber, isRecord, Validator } from "./schemas";
+
+const NAMESPACE = "currencysnap";
+const SCHEMA_VERSION_KEY = `${NAMESPACE}:schema_version`;
+
+// Every value is written inside an envelope recording the schema it was written under
+export interface StoredEnvelope<T> {
+  version: number;
+  savedAt: number;
+  data: T;
+}
+
+export interface MigrationContext {
+  storage: typeof AsyncStorage;
+  key(name: string): string;
+  read<T>(name: string, validate: Validator<T>): Promise<T | null>;
+  write<T>(name: string, data: T): Promise<void>;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(context: MigrationContext): Promise<void>;
+}
+
+export interface EvictionLimits {
+  maxEntries?: number;
+  maxBytes?: number;
+}
+
+export const SCHEMA_VERSION = MIGRATIONS.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+
+function isEnvelope(value: unknown): value is StoredEnvelope<unknown> {
+  return isRecord(value) && isFiniteNumber(value.version) && isFiniteNumber(value.savedAt) && "data" in value;
+}
+
+class StorageRepository {
+  private migrated: Promise<void> | null = null;
+
+  private key(name: string): string {
+    return `${NAMESPACE}:${name}`;
+  }
+
+  private encode<T>(data: T): string {
+    const envelope: StoredEnvelope<T> = { version: SCHEMA_VERSION, savedAt: Date.now(), data };
+    return JSON.stringify(envelope);
+  }
+
+  private decode<T>(name: string, raw: string | null, validate: Validator<T>): T | null {
+    if (raw === null) {
+      return null;
+    }
+    try {
+      const envelope: unknown = JSON.parse(raw);
+      if (isEnvelope(envelope) && validate(envelope.data)) {
+        return envelope.data;
+      }
+    } catch {
+      // Fall through to the warning below
+    }
+    console.warn(`Discarding invalid stored value for "${name}"`);
+    return null;
+  }
+
+  // Runs pending migrations once per app launch; every read and write waits for it
+  ready(): Promise<void> {
+    if (!this.migrated) {
+      this.migrated = this.runMigrations().catch(error => {
+        console.error("Error running storage migrations:", error);
+      });
+    }
+    return this.migrated;
+  }
+
+  private async runMigrations(): Promise<void> {
+    const stored = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+    let current = stored ? parseInt(stored, 10) || 0 : 0;
+    const context: MigrationContext = {
+      storage: AsyncStorage,
+      key: name => this.key(name),
+      read: async (name, validate) => this.decode(name, await AsyncStorage.getItem(this.key(name)), validate),
+      write: (name, data) => AsyncStorage.setItem(this.key(name), this.encode(data)),
+    };
+
+    const pending = MIGRATIONS.filter(migration => migration.version > current).sort((a, b) => a.version - b.version);
+    for (const migration of pending) {
+      await migration.up(context);
+      current = migration.version;
+      await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(current));
+    }
+  }
+
+  async get<T>(name: string, validate: Validator<T>): Promise<T | null> {
+    await this.ready();
+    const raw = await AsyncStorage.getItem(this.key(name));
+    return this.decode(name, raw, validate);
+  }
+
+  async multiGet<T>(names: string[], validate: Validator<T>): Promise<(T | null)[]> {
+    await this.ready();
+    const entries = await AsyncStorage.multiGet(names.map(name => this.key(name)));
+    return entries.map(([, raw], index) => this.decode(names[index], raw, validate));
+  }
+
+  async set<T>(name: string, data: T): Promise<void> {
+    await this.ready();
+    await AsyncStorage.setItem(this.key(name), this.encode(data));
+  }
+
+  async multiSet<T>(entries: [string, T][]): Promise<void> {
+    await this.ready();
+    await AsyncStorage.multiSet(entries.map(([name, data]) => [this.key(name), this.encode(data)]));
+  }
+
+  async remove(name: string): Promise<void> {
+    await this.ready();
+    await AsyncStorage.removeItem(this.key(name));
+  }
+
+  // Names (without the namespace) of all stored values starting with the prefix
+  async keys(prefix: string = ""): Promise<string[]> {
+    await this.ready();
+    const fullPrefix = this.key(prefix);
+    const keys = await AsyncStorage.getAllKeys();
+    return keys.filter(key => key.startsWith(fullPrefix)).map(key => key.slice(NAMESPACE.length + 1));
+  }
+
+  async removeAll(prefix: string): Promise<void> {
+    const names = await this.keys(prefix);
+    await AsyncStorage.multiRemove(names.map(name => this.key(name)));
+  }
+
+  // Removes the least recently written values under the prefix until both limits hold
+  async evict(prefix: string, limits: EvictionLimits): Promise<string[]> {
+    const names = await this.keys(prefix);
+    const entries = await AsyncStorage.multiGet(names.map(name => this.key(name)));
+
+    const sized = entries.map(([key, raw], index) => {
+      let savedAt = 0;
+      try {
+        const envelope: unknown = raw ? JSON.parse(raw) : null;
+        savedAt = isEnvelope(envelope) ? envelope.savedAt : 0;
+      } catch {
+        // Unreadable entries sort first and are evicted first
+      }
+      return { key, name: names[index], savedAt, bytes: raw?.length ?? 0 };
+    });
+    sized.sort((a, b) => a.savedAt - b.savedAt);
+
+    const maxEntries = limits.maxEntries ?? Infinity;
+    const maxBytes = limits.maxBytes ?? Infinity;
+    let totalBytes = sized.reduce((sum, entry) => sum + entry.bytes, 0);
+    const evicted: typeof sized = [];
+
+    while (sized.length > 0 && (sized.length > maxEntries || totalBytes > maxBytes)) {
+      const oldest = sized.shift()!;
+      totalBytes -= oldest.bytes;
+      evicted.push(oldest);
+    }
+
+    if (evicted.length > 0) {
+      await AsyncStorage.multiRemove(evicted.map(entry => entry.key));
+    }
+    return evicted.map(entry => entry.name);
+  }
+}
+
+export default new StorageRepository();
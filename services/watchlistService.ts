@@ -0,0 +1,155 @@
+import { isString, isWatchlistArray } from "./schemas";
+import storage from "./storage";
+
+// A named, hand-ordered set of currencies, e.g. "Europe trip" or "Payroll"
+export interface Watchlist {
+  id: string;
+  name: string;
+  // In the order the user arranged them
+  currencies: string[];
+  // Base currency the converter switches to when this list is picked; null keeps the current one
+  baseCurrency: string | null;
+  createdAt: number;
+}
+
+// Id of the list that pre-watchlist favorites were migrated into
+export const DEFAULT_WATCHLIST_ID = "default";
+
+const WATCHLISTS_KEY = "watchlists";
+const ACTIVE_WATCHLIST_KEY = "active_watchlist";
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function createDefaultWatchlist(): Watchlist {
+  return { id: DEFAULT_WATCHLIST_ID, name: "Favorites", currencies: [], baseCurrency: null, createdAt: Date.now() };
+}
+
+type WatchlistsListener = () => void;
+
+class WatchlistService {
+  // Kept in memory so the favorites strip can render synchronously; there is always at least one list
+  private lists: Watchlist[] = [createDefaultWatchlist()];
+  private activeId: string = DEFAULT_WATCHLIST_ID;
+  private loaded: Promise<void> | null = null;
+  private listeners = new Set<WatchlistsListener>();
+
+  get snapshot(): Watchlist[] {
+    return this.lists;
+  }
+
+  get active(): Watchlist {
+    return this.lists.find(list => list.id === this.activeId) ?? this.lists[0];
+  }
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = Promise.all([storage.get(WATCHLISTS_KEY, isWatchlistArray), storage.get(ACTIVE_WATCHLIST_KEY, isString)])
+        .then(([lists, activeId]) => {
+          this.lists = lists && lists.length > 0 ? lists : [createDefaultWatchlist()];
+          this.activeId = activeId ?? this.lists[0].id;
+          this.notify();
+        })
+        .catch(error => {
+          console.error("Error reading watchlists:", error);
+        });
+    }
+    return this.loaded;
+  }
+
+  async setActive(id: string): Promise<void> {
+    await this.load();
+    if (this.lists.some(list => list.id === id)) {
+      this.activeId = id;
+      await this.save();
+    }
+  }
+
+  // Creates an empty list and makes it the active one
+  async createWatchlist(name: string): Promise<Watchlist> {
+    await this.load();
+    const list: Watchlist = { id: createId(), name, currencies: [], baseCurrency: null, createdAt: Date.now() };
+    this.lists = [...this.lists, list];
+    this.activeId = list.id;
+    await this.save();
+    return list;
+  }
+
+  async renameWatchlist(id: string, name: string): Promise<void> {
+    await this.updateList(id, list => ({ ...list, name }));
+  }
+
+  async deleteWatchlist(id: string): Promise<void> {
+    await this.load();
+    if (this.lists.length <= 1) {
+      throw new Error("At least one watchlist has to remain");
+    }
+    this.lists = this.lists.filter(list => list.id !== id);
+    if (this.activeId === id) {
+      this.activeId = this.lists[0].id;
+    }
+    await this.save();
+  }
+
+  async setCurrencies(id: string, currencies: string[]): Promise<void> {
+    await this.updateList(id, list => ({ ...list, currencies: [...new Set(currencies)] }));
+  }
+
+  // Adds the currency to the end of the list or removes it; returns whether it is now in the list
+  async toggleCurrency(id: string, currency: string): Promise<boolean> {
+    await this.load();
+    const list = this.lists.find(candidate => candidate.id === id);
+    const isListed = list?.currencies.includes(currency) ?? false;
+    await this.updateList(id, current => ({
+      ...current,
+      currencies: isListed ? current.currencies.filter(code => code !== currency) : [...current.currencies, currency],
+    }));
+    return !isListed;
+  }
+
+  // Moves the currency at position `from` to position `to`, shifting the ones in between
+  async moveCurrency(id: string, from: number, to: number): Promise<void> {
+    await this.updateList(id, list => {
+      const currencies = [...list.currencies];
+      const [moved] = currencies.splice(from, 1);
+      if (moved === undefined) {
+        return list;
+      }
+      currencies.splice(Math.max(0, Math.min(to, currencies.length)), 0, moved);
+      return { ...list, currencies };
+    });
+  }
+
+  async setBaseCurrency(id: string, baseCurrency: string | null): Promise<void> {
+    await this.updateList(id, list => ({ ...list, baseCurrency }));
+  }
+
+  subscribe(listener: WatchlistsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async updateList(id: string, change: (list: Watchlist) => Watchlist): Promise<void> {
+    await this.load();
+    this.lists = this.lists.map(list => (list.id === id ? change(list) : list));
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await Promise.all([storage.set(WATCHLISTS_KEY, this.lists), storage.set(ACTIVE_WATCHLIST_KEY, this.activeId)]);
+    } catch (error) {
+      console.error("Error saving watchlists:", error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default new WatchlistService();